@@ -5,6 +5,11 @@ import { MessagePattern } from '@nestjs/microservices';
 import { Queue } from 'bull';
 
 import { CoupangApiService } from '../core/coupang.api.service';
+import { CoupangCatalogueService } from '../core/coupang.catalogue.service';
+import { CoupangComparisonService } from '../core/coupang.comparison.service';
+import { CoupangCompetitorService } from '../core/coupang.competitor.service';
+import { CoupangOrderService, toOrderSheetStatus } from '../core/coupang.order.service';
+import { CoupangRepricingService } from '../core/coupang.repricing.service';
 import { CoupangService } from '../core/coupang.service';
 import { CoupangCrawlerService } from '../core/crawler/coupang.crawler.service';
 
@@ -13,6 +18,11 @@ export class CoupangMessageController {
   constructor(
     private readonly coupangService: CoupangService,
     private readonly coupangApiService: CoupangApiService,
+    private readonly coupangOrderService: CoupangOrderService,
+    private readonly coupangRepricingService: CoupangRepricingService,
+    private readonly coupangComparisonService: CoupangComparisonService,
+    private readonly coupangCompetitorService: CoupangCompetitorService,
+    private readonly coupangCatalogueService: CoupangCatalogueService,
     private readonly coupangCrawlerService: CoupangCrawlerService,
     @InjectQueue('coupang-message-queue') private readonly messageQueue: Queue,
   ) {}
@@ -24,8 +34,11 @@ export class CoupangMessageController {
 
     switch (pattern) {
       case 'orderStatusUpdate':
-        await this.coupangCrawlerService.orderStatusUpdate(payload.jobId, payload.jobType);
-        break;
+        const orderStatusResult = await this.coupangOrderService.orderStatusUpdate(
+          payload.jobId,
+          payload.jobType,
+        );
+        return { status: 'success', data: orderStatusResult };
 
       case 'uploadInvoices':
         const result = await this.coupangService.uploadInvoices(
@@ -35,6 +48,23 @@ export class CoupangMessageController {
         );
         return { status: 'success', data: result };
 
+      case 'updateInvoices':
+        const correctionResult = await this.coupangService.updateInvoices(
+          payload.jobId,
+          payload.jobType,
+          payload.data,
+        );
+        return { status: 'success', data: correctionResult };
+
+      case 'getInvoiceUploads':
+        const invoiceOrderId = Number(payload.data?.orderId);
+        if (!invoiceOrderId) {
+          return { status: 'error', message: 'orderId가 필요합니다.' };
+        }
+
+        const invoiceUploads = await this.coupangService.getInvoiceUploads(invoiceOrderId);
+        return { status: 'success', data: invoiceUploads };
+
       case 'crawlCoupangPriceComparison':
         await this.coupangCrawlerService.crawlCoupangPriceComparison(
           payload.jobId,
@@ -43,6 +73,22 @@ export class CoupangMessageController {
         );
         return 'success';
 
+      case 'detectWinnerChanges':
+        const winnerChanges = await this.coupangComparisonService.detectWinnerChanges(
+          payload.jobId,
+          payload.jobType,
+          payload.data?.crawlRunId ?? payload.jobId,
+        );
+        return { status: 'success', data: winnerChanges };
+
+      case 'getCompetitorAnalytics':
+        const competitorAnalytics = await this.coupangCompetitorService.getCompetitorAnalytics(
+          payload.jobId,
+          payload.jobType,
+          payload.data,
+        );
+        return { status: 'success', data: competitorAnalytics };
+
       case 'deleteConfirmedCoupangProduct':
         const matchedProducts = await this.coupangCrawlerService.deleteConfirmedCoupangProduct(
           payload.jobId,
@@ -50,13 +96,37 @@ export class CoupangMessageController {
         );
         return { status: 'success', data: matchedProducts };
 
+      case 'getCrawlRejectedRows':
+        const rejectedRunId = payload.data?.crawlRunId;
+        if (typeof rejectedRunId !== 'string' || !rejectedRunId.trim()) {
+          return { status: 'error', message: 'crawlRunId가 필요합니다.' };
+        }
+
+        const rejectedRows = await this.coupangService.getCrawlRejectedRows(rejectedRunId);
+        return { status: 'success', data: rejectedRows };
+
       case 'getProductListPaging':
         const coupangProducts = await this.coupangApiService.getProductListPaging(
           payload.jobId,
           payload.jobType,
+          payload.data,
         );
         return { status: 'success', data: coupangProducts };
 
+      case 'syncCatalogue':
+        const catalogueSummary = await this.coupangCatalogueService.syncCatalogue(
+          payload.jobId,
+          payload.jobType,
+          payload.data,
+        );
+        return { status: 'success', data: catalogueSummary };
+
+      case 'getCatalogueProducts':
+        const catalogueProducts = await this.coupangCatalogueService.getCatalogueProducts(
+          payload.data,
+        );
+        return { status: 'success', data: catalogueProducts };
+
       case 'getProductDetail':
         const coupangProduct = await this.coupangApiService.getProductDetail(
           payload.jobId,
@@ -66,13 +136,54 @@ export class CoupangMessageController {
         return { status: 'success', data: coupangProduct };
 
       case 'newGetCoupangOrderList':
-        const coupangOrderList = await this.coupangCrawlerService.newGetCoupangOrderList(
+        // 기존 호출자용 주문 목록 (윙 OrderStatus, JSON 문자열 응답, 오픈 API로 조회)
+        const legacyStatus = toOrderSheetStatus(payload.data);
+        if (!legacyStatus) {
+          return { status: 'error', message: `지원하지 않는 주문 상태입니다: ${payload.data}` };
+        }
+
+        const coupangOrderList = await this.coupangOrderService.getLegacyOrderList(
           payload.jobId,
           payload.jobType,
-          payload.data,
+          legacyStatus,
         );
         return { status: 'success', data: coupangOrderList };
 
+      case 'getOrderSheets':
+        const twoWeeksAgo = new Date();
+        twoWeeksAgo.setDate(twoWeeksAgo.getDate() - 14);
+
+        const orderSheets = await this.coupangApiService.getOrderSheets(
+          payload.jobId,
+          payload.jobType,
+          payload.data?.status ?? 'ACCEPT',
+          payload.data?.from ?? twoWeeksAgo,
+          payload.data?.to ?? new Date(),
+        );
+        return { status: 'success', data: orderSheets };
+
+      case 'syncOrderSheets':
+        const syncResult = await this.coupangOrderService.syncOrderSheets(
+          payload.jobId,
+          payload.jobType,
+          payload.data?.days,
+        );
+        return { status: 'success', data: syncResult };
+
+      case 'getOrderStatusHistories':
+        const historyShipmentBoxId = Number(payload.data?.shipmentBoxId);
+        if (!historyShipmentBoxId) {
+          return { status: 'error', message: 'shipmentBoxId가 필요합니다.' };
+        }
+
+        const statusHistories =
+          await this.coupangOrderService.getStatusHistories(historyShipmentBoxId);
+        return { status: 'success', data: statusHistories };
+
+      case 'getOrders':
+        const orders = await this.coupangOrderService.getOrders(payload.data);
+        return { status: 'success', data: orders };
+
       case 'putStopSellingItem':
         await this.coupangApiService.putStopSellingItem(
           payload.jobId,
@@ -97,6 +208,35 @@ export class CoupangMessageController {
         await this.coupangService.coupangProductsPriceControl(payload.jobId, payload.jobType);
         break;
 
+      case 'previewPriceUpdates':
+        const pricePreview = await this.coupangService.previewPriceUpdates(
+          payload.jobId,
+          payload.jobType,
+        );
+        return { status: 'success', data: pricePreview };
+
+      case 'applyPricePreview':
+        const previewId = payload.data?.previewId;
+        if (typeof previewId !== 'string' || !previewId.trim()) {
+          return { status: 'error', message: 'previewId가 필요합니다.' };
+        }
+
+        await this.coupangService.applyPricePreview(payload.jobId, payload.jobType, previewId);
+        return { status: 'success' };
+
+      case 'rollbackPriceRun':
+        const rollbackRunId = payload.data?.runId;
+        if (typeof rollbackRunId !== 'string' || !rollbackRunId.trim()) {
+          return { status: 'error', message: 'runId가 필요합니다.' };
+        }
+
+        const rollbackResult = await this.coupangService.rollbackPriceRun(
+          payload.jobId,
+          payload.jobType,
+          rollbackRunId,
+        );
+        return { status: 'success', data: rollbackResult };
+
       case 'shippingCostManagement':
         const shippingCostResult = await this.coupangService.shippingCostManagement(
           payload.jobId,
@@ -117,13 +257,25 @@ export class CoupangMessageController {
         );
         return { status: 'success' };
 
+      case 'repriceFromComparison':
+        const repricingSummary = await this.coupangRepricingService.repriceFromComparison(
+          payload.jobId,
+          payload.jobType,
+          payload.data?.rules,
+        );
+        return { status: 'success', data: repricingSummary };
+
       case 'getComparisonCount':
         const count = await this.coupangService.getComparisonCount();
         return { status: 'success', data: count };
 
       case 'putOrderStatus':
-        await this.coupangApiService.putOrderStatus(payload.jobId, payload.jobType, payload.data);
-        break;
+        const acknowledgementResult = await this.coupangOrderService.acknowledgeOrders(
+          payload.jobId,
+          payload.jobType,
+          payload.data,
+        );
+        return { status: 'success', data: acknowledgementResult };
 
       default:
         console.error(
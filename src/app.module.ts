@@ -8,8 +8,15 @@ import { RedisModule } from '@nestjs-modules/ioredis';
 import { Queue } from 'bull';
 
 import { CoupangMessageController } from './api/coupang.message.controller';
+import { redisConfig } from './config/redis.config';
 import { TypeormConfig } from './config/typeorm.config';
 import { CoupangApiService } from './core/coupang.api.service';
+import { CoupangCatalogueService } from './core/coupang.catalogue.service';
+import { CoupangComparisonService } from './core/coupang.comparison.service';
+import { CoupangCompetitorService } from './core/coupang.competitor.service';
+import { CoupangHttpClient } from './core/coupang.http.client';
+import { CoupangOrderService } from './core/coupang.order.service';
+import { CoupangRepricingService } from './core/coupang.repricing.service';
 import { MessageQueueProcessor } from './core/coupang.queue.processor';
 import { CoupangService } from './core/coupang.service';
 import { CoupangSignatureService } from './core/coupang.signature.service';
@@ -17,10 +24,24 @@ import { CoupangCrawlerService } from './core/crawler/coupang.crawler.service';
 import { CrawlCoupangDetailProductsProvider } from './core/crawler/provider/crawlCoupangDetailProducts.provider';
 import { DeleteConfirmedCoupangProductProvider } from './core/crawler/provider/deleteConfirmedCoupangProduct.provider';
 import { InvoiceUploaderProvider } from './core/crawler/provider/invoiceUploader.provider';
-import { OrderStatusUpdateProvider } from './core/crawler/provider/orderStatusUpdate.provider';
 import { CoupangComparisonEntity } from './infrastructure/entities/coupangComparison.entity';
+import { CoupangComparisonRunEntity } from './infrastructure/entities/coupangComparisonRun.entity';
+import { CoupangCrawlRejectedRowEntity } from './infrastructure/entities/coupangCrawlRejectedRow.entity';
+import { CoupangInvoiceUploadEntity } from './infrastructure/entities/coupangInvoiceUpload.entity';
+import { CoupangOrderEntity } from './infrastructure/entities/coupangOrder.entity';
+import { CoupangOrderItemEntity } from './infrastructure/entities/coupangOrderItem.entity';
+import { CoupangOrderStatusHistoryEntity } from './infrastructure/entities/coupangOrderStatusHistory.entity';
+import { CoupangPriceChangeEntity } from './infrastructure/entities/coupangPriceChange.entity';
+import { CoupangPricePreviewEntity } from './infrastructure/entities/coupangPricePreview.entity';
 import { CoupangProductEntity } from './infrastructure/entities/coupangProduct.entity';
+import { CoupangSellerProductEntity } from './infrastructure/entities/coupangSellerProduct.entity';
 import { CoupangUpdateItemEntity } from './infrastructure/entities/coupangUpdateItem.entity';
+import { CoupangVendorItemEntity } from './infrastructure/entities/coupangVendorItem.entity';
+import { CoupangCatalogueRepository } from './infrastructure/repository/coupang.catalogue.repository';
+import { CoupangCheckpointRepository } from './infrastructure/repository/coupang.checkpoint.repository';
+import { CoupangInvoiceRepository } from './infrastructure/repository/coupang.invoice.repository';
+import { CoupangOrderRepository } from './infrastructure/repository/coupang.order.repository';
+import { CoupangPriceRepository } from './infrastructure/repository/coupang.price.repository';
 import { CoupangRepository } from './infrastructure/repository/coupang.repository';
 import { CrawlCoupangPriceComparisonProvider } from './core/crawler/provider/crawlCoupangPriceComparison.provider';
 
@@ -38,6 +59,16 @@ import { CrawlCoupangPriceComparisonProvider } from './core/crawler/provider/cra
       CoupangProductEntity,
       CoupangUpdateItemEntity,
       CoupangComparisonEntity,
+      CoupangComparisonRunEntity,
+      CoupangOrderEntity,
+      CoupangOrderItemEntity,
+      CoupangOrderStatusHistoryEntity,
+      CoupangInvoiceUploadEntity,
+      CoupangPricePreviewEntity,
+      CoupangPriceChangeEntity,
+      CoupangCrawlRejectedRowEntity,
+      CoupangSellerProductEntity,
+      CoupangVendorItemEntity,
     ]),
     BullModule.registerQueueAsync({
       name: 'coupang-message-queue',
@@ -65,18 +96,28 @@ import { CrawlCoupangPriceComparisonProvider } from './core/crawler/provider/cra
       }),
     }),
     ConfigModule,
-    RedisModule,
+    RedisModule.forRoot(redisConfig),
     PlaywrightModule,
   ],
   controllers: [CoupangMessageController],
   providers: [
     CoupangSignatureService,
+    CoupangHttpClient,
     CoupangService,
     CoupangApiService,
+    CoupangOrderService,
+    CoupangRepricingService,
+    CoupangComparisonService,
+    CoupangCompetitorService,
+    CoupangCatalogueService,
     CoupangCrawlerService,
     MessageQueueProcessor,
     CoupangRepository,
-    OrderStatusUpdateProvider,
+    CoupangOrderRepository,
+    CoupangInvoiceRepository,
+    CoupangPriceRepository,
+    CoupangCheckpointRepository,
+    CoupangCatalogueRepository,
     InvoiceUploaderProvider,
     DeleteConfirmedCoupangProductProvider,
     CrawlCoupangDetailProductsProvider,
@@ -94,7 +135,6 @@ export class AppModule implements OnApplicationBootstrap, OnModuleInit {
   async onApplicationBootstrap() {
     setTimeout(async () => {
       await this.playwrightService.init(true, 'chromium');
-      // await this.coupangCrawlerService.newGetCoupangOrderList('test', 'test');
       // await this.coupangApiService.getProductInflow();
     });
   }
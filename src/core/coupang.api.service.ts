@@ -1,119 +1,77 @@
-import { CoupangInvoice, CoupangProduct, JobType } from '@daechanjo/models';
+import { CoupangProduct, JobType } from '@daechanjo/models';
 import { Injectable } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import axios, { AxiosResponse } from 'axios';
 
-import { CoupangSignatureService } from './coupang.signature.service';
+import {
+  CoupangBatchResponse,
+  CoupangEndpoints,
+  CoupangVendorItemInventory,
+} from './coupang.endpoints';
+import { CoupangApiResponse, CoupangHttpClient } from './coupang.http.client';
+import { CoupangInvoiceApplyDto, InvoiceItemOutcome } from './types/coupangInvoice.types';
+import {
+  CoupangOrderSheet,
+  CoupangOrderSheetStatus,
+  OrderAcknowledgementResult,
+} from './types/coupangOrder.types';
+import { CoupangListedProduct, CoupangProductListFilter } from './types/coupangProduct.types';
+
+// 반려 사유를 조회할 상품 상태명 (승인반려, 부분승인완료)
+const REJECTED_STATUS_NAMES = ['승인반려', '부분승인완료'];
 
 @Injectable()
 export class CoupangApiService {
-  constructor(
-    private readonly signatureService: CoupangSignatureService,
-    private readonly configService: ConfigService,
-  ) {}
+  constructor(private readonly httpClient: CoupangHttpClient) {}
 
   /**
    * 쿠팡 판매자 API를 통해 전체 상품 목록을 페이징하여 조회
    *
    * @param jobId - 현재 실행 중인 크론 작업의 고유 식별자
    * @param jobType - 로그 메시지에 포함될 작업 유형 식별자
+   * @param filter - 상품 상태, 등록일, 등록상품명 조건 (생략하면 승인완료 상품 전체)
    *
-   * @returns {Promise<CoupangProduct[]>} - 쿠팡 상품 객체 배열을 포함하는 Promise
+   * @returns {Promise<CoupangListedProduct[]>} - 쿠팡 상품 객체 배열을 포함하는 Promise
    *
    * @throws {Error} - API 요청 실패 시 발생하는 오류
    *
    * @description
    * 이 메서드는 다음 단계로 진행됩니다:
-   * 1. 쿠팡 판매자 API에 페이징 방식으로 상품 조회 요청
+   * 1. 조회할 상태마다 쿠팡 판매자 API에 페이징 방식으로 상품 조회 요청
    * 2. nextToken을 사용하여 모든 페이지를 순차적으로 조회
-   * 3. 각 페이지에서 받은 상품 데이터를 누적하여 저장
+   * 3. 각 페이지에서 받은 상품 데이터를 누적하여 저장 (여러 상태를 조회하면 sellerProductId 기준으로 중복 제거)
    * 4. API 오류 발생 시 최대 3회까지 재시도
-   * 5. 모든 페이지 조회 완료 후 전체 상품 목록 반환
+   * 5. 승인반려, 부분승인완료 상품은 상태 변경 이력에서 반려 사유를 조회하여 함께 반환
    *
    * API 요청 중 오류가 발생하면 로그를 남기고 재시도하며,
    * 최대 재시도 횟수를 초과하면 예외를 발생시킵니다.
    * 페이지 진행 상황을 10페이지마다 로그로 기록합니다.
    */
-  async getProductListPaging(jobId: string, jobType: string): Promise<CoupangProduct[]> {
-    console.log(`${jobType}${jobId}: 쿠팡 전체상품 조회...`);
-    const apiPath = '/v2/providers/seller_api/apis/api/v1/marketplace/seller-products';
-
-    let nextToken = '';
-    let pageCount = 0;
-    const allProducts: CoupangProduct[] = [];
-    const maxRetries = 3; // 최대 재시도 횟수
+  async getProductListPaging(
+    jobId: string,
+    jobType: string,
+    filter: CoupangProductListFilter = {},
+  ): Promise<CoupangListedProduct[]> {
+    const status = filter?.status ?? 'APPROVED';
+    console.log(`${jobType}${jobId}: 쿠팡 전체상품 조회... (상태: ${[status].flat().join(', ')})`);
 
     try {
-      while (true) {
-        let retryCount = 0;
-
-        while (retryCount < maxRetries) {
-          try {
-            const { authorization, datetime } = await this.signatureService.createHmacSignature(
-              'GET',
-              apiPath,
-              nextToken,
-              true,
-            );
-
-            await new Promise((resolve) => setTimeout(resolve, 1000));
-
-            const response = await axios.get(`https://api-gateway.coupang.com${apiPath}`, {
-              headers: {
-                Authorization: authorization,
-                'Content-Type': 'application/json;charset=UTF-8',
-                'X-EXTENDED-TIMEOUT': '90000',
-                'X-Coupang-Date': datetime,
-              },
-              params: {
-                vendorId: this.configService.get<string>('COUPANG_VENDOR_ID'),
-                nextToken: nextToken,
-                maxPerPage: 100,
-                status: 'APPROVED',
-              },
-            });
-
-            const { data } = response.data;
-            allProducts.push(...data);
-
-            nextToken = response.data.nextToken;
-            pageCount++;
-
-            if (pageCount % 10 === 0)
-              console.log(
-                `${jobType}${jobId}: 진행중 - 현재 페이지 ${pageCount}, ${allProducts.length} 수집됨`,
-              );
-
-            if (!nextToken) {
-              // nextToken이 없으면 마지막 페이지이므로 종료
-              break;
-            }
-
-            // 성공 시 재시도 루프 종료
-            break;
-          } catch (error: any) {
-            retryCount++;
-            console.error(
-              `${JobType.ERROR}${jobType}${jobId}: API 요청 오류, 재시도 ${retryCount}/${maxRetries}\n`,
-              error.response?.data || error.message,
-            );
-
-            // 재시도 횟수 초과 시 throw
-            if (retryCount >= maxRetries) {
-              throw new Error(
-                `${JobType.ERROR}${jobType}${jobId}: 최대 재시도 횟수를 초과하여 요청 실패 (nextToken: ${nextToken || '없음'})`,
-              );
-            }
-
-            // 짧은 대기 후 재시도
-            await new Promise((resolve) => setTimeout(resolve, 2000));
-          }
+      // 'ALL'이면 상태 조건 없이 한 번에 조회
+      const statuses = status === 'ALL' ? [undefined] : [status].flat();
+      const productsById = new Map<string, CoupangListedProduct>();
+
+      for (const productStatus of statuses) {
+        const products = await this.fetchProductPages(jobId, jobType, {
+          status: productStatus,
+          createdAt: filter?.createdAt,
+          sellerProductName: filter?.sellerProductName,
+        });
+        for (const product of products) {
+          productsById.set(String(product.sellerProductId), product);
         }
-
-        // 다음 페이지로 이동
-        if (!nextToken) break;
       }
 
+      const allProducts = [...productsById.values()];
+      await this.attachRejectionReasons(jobId, jobType, allProducts);
+
       console.log(`${jobType}${jobId}: 쿠팡 전체상품 조회 완료 - ${allProducts.length}개`);
 
       return allProducts;
@@ -126,6 +84,115 @@ export class CoupangApiService {
     }
   }
 
+  /**
+   * 한 가지 조회 조건으로 nextToken이 없을 때까지 상품 목록 페이지를 조회
+   */
+  private async fetchProductPages(
+    jobId: string,
+    jobType: string,
+    query: { status?: string; createdAt?: string; sellerProductName?: string },
+  ): Promise<CoupangListedProduct[]> {
+    let nextToken = '';
+    let pageCount = 0;
+    const allProducts: CoupangListedProduct[] = [];
+    const maxRetries = 3; // 최대 재시도 횟수
+
+    while (true) {
+      let retryCount = 0;
+
+      while (retryCount < maxRetries) {
+        try {
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+
+          const response = await this.httpClient.send(CoupangEndpoints.getSellerProducts, {
+            query: {
+              vendorId: this.httpClient.vendorId,
+              nextToken: nextToken,
+              maxPerPage: 100,
+              status: query.status,
+              createdAt: query.createdAt,
+              sellerProductName: query.sellerProductName,
+            },
+          });
+
+          allProducts.push(...response.data);
+
+          nextToken = response.nextToken;
+          pageCount++;
+
+          if (pageCount % 10 === 0)
+            console.log(
+              `${jobType}${jobId}: 진행중 - 현재 페이지 ${pageCount}, ${allProducts.length} 수집됨`,
+            );
+
+          // 성공 시 재시도 루프 종료
+          break;
+        } catch (error: any) {
+          retryCount++;
+          console.error(
+            `${JobType.ERROR}${jobType}${jobId}: API 요청 오류, 재시도 ${retryCount}/${maxRetries}\n`,
+            error.response?.data || error.message,
+          );
+
+          // 재시도 횟수 초과 시 throw
+          if (retryCount >= maxRetries) {
+            throw new Error(
+              `${JobType.ERROR}${jobType}${jobId}: 최대 재시도 횟수를 초과하여 요청 실패 (nextToken: ${nextToken || '없음'})`,
+            );
+          }
+
+          // 짧은 대기 후 재시도
+          await new Promise((resolve) => setTimeout(resolve, 2000));
+        }
+      }
+
+      // nextToken이 없으면 마지막 페이지이므로 종료
+      if (!nextToken) break;
+    }
+
+    return allProducts;
+  }
+
+  /**
+   * 승인반려, 부분승인완료 상품에 상태 변경 이력의 반려 사유를 채움
+   *
+   * @description
+   * 가장 최근의 반려 이력 comment를 반려 사유로 사용합니다.
+   * 상품 목록 조회와 같이 요청마다 1초씩 대기하여 API 호출 빈도를 제한합니다.
+   * 이력 조회에 실패한 상품은 반려 사유를 null로 두고 나머지 상품은 계속 조회합니다.
+   */
+  private async attachRejectionReasons(
+    jobId: string,
+    jobType: string,
+    products: CoupangListedProduct[],
+  ): Promise<void> {
+    const rejectedProducts = products.filter((product) =>
+      REJECTED_STATUS_NAMES.includes(product.statusName),
+    );
+
+    for (const product of rejectedProducts) {
+      try {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+
+        const histories = await this.httpClient.request(
+          CoupangEndpoints.getSellerProductHistories,
+          { params: { sellerProductId: product.sellerProductId } },
+        );
+        const rejection = [...(histories ?? [])]
+          .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)))
+          .find((history) => REJECTED_STATUS_NAMES.includes(history.statusName) && history.comment);
+
+        product.rejectionReason = rejection?.comment ?? null;
+      } catch (error: any) {
+        product.rejectionReason = null;
+        console.error(
+          `${JobType.ERROR}${jobType}${jobId}: 상품 반려 사유 조회 오류 ${product.sellerProductId}\n`,
+          error.response?.data || error.message,
+        );
+      }
+    }
+  }
+
   /**
    * 쿠팡 판매자 API를 통해 특정 상품의 상세 정보 조회
    *
@@ -139,11 +206,8 @@ export class CoupangApiService {
    *
    * @description
    * 이 메서드는 다음 단계로 진행됩니다:
-   * 1. 상품 ID를 기반으로 쿠팡 API 경로 구성
-   * 2. HMAC 서명 생성
-   * 3. API 요청 헤더에 인증 정보와 타임스탬프 추가
-   * 4. 쿠팡 API를 통해 상품 상세 정보 요청
-   * 5. 응답에서 data 필드 추출하여 반환
+   * 1. 상품 ID를 경로 파라미터로 상품 상세 엔드포인트 호출
+   * 2. 응답에서 data 필드 추출하여 반환
    *
    * API 요청 중 오류가 발생하면 로그를 남기고 예외를 발생시킵니다.
    */
@@ -152,26 +216,10 @@ export class CoupangApiService {
     jobType: string,
     sellerProductId: number,
   ): Promise<CoupangProduct> {
-    const apiPath = `/v2/providers/seller_api/apis/api/v1/marketplace/seller-products/${sellerProductId}`;
-
-    const { authorization, datetime } = await this.signatureService.createHmacSignature(
-      'GET',
-      apiPath,
-      '',
-      false,
-    );
-
     try {
-      const response = await axios.get(`https://api-gateway.coupang.com${apiPath}`, {
-        headers: {
-          Authorization: authorization,
-          'Content-Type': 'application/json;charset=UTF-8',
-          'X-EXTENDED-TIMEOUT': '90000',
-          'X-Coupang-Date': datetime,
-        },
+      return await this.httpClient.request(CoupangEndpoints.getSellerProduct, {
+        params: { sellerProductId },
       });
-
-      return response.data.data;
     } catch (error: any) {
       console.error(
         `${JobType.ERROR}${jobType}${jobId}: 상품 상세 조회 오류 ${sellerProductId}\n`,
@@ -192,32 +240,15 @@ export class CoupangApiService {
    *
    * @description
    * 이 메서드는 다음 단계로 진행됩니다:
-   * 1. 상품 항목 ID를 기반으로 쿠팡 API 경로 구성
-   * 2. PUT 메서드를 위한 HMAC 서명 생성
-   * 3. API 요청 헤더에 인증 정보와 타임스탬프 추가
-   * 4. 쿠팡 API를 통해 판매 중지 요청 실행
+   * 1. 상품 항목 ID를 경로 파라미터로 판매 중지 엔드포인트 호출
    *
    * API 요청 중 오류가 발생하면 로그를 남기지만 예외를 발생시키지 않고 계속 진행합니다.
    * 이는 일부 상품 판매 중지 실패가 전체 프로세스를 중단시키지 않도록 하기 위함입니다.
    */
   async putStopSellingItem(jobId: string, jobType: string, vendorItemId: number): Promise<void> {
-    const apiPath = `/v2/providers/seller_api/apis/api/v1/marketplace/vendor-items/${vendorItemId}/sales/stop`;
-
-    const { authorization, datetime } = await this.signatureService.createHmacSignature(
-      'PUT',
-      apiPath,
-      '',
-      false,
-    );
-
     try {
-      await axios.put(`https://api-gateway.coupang.com${apiPath}`, null, {
-        headers: {
-          Authorization: authorization,
-          'Content-Type': 'application/json;charset=UTF-8',
-          'X-EXTENDED-TIMEOUT': '90000',
-          'X-Coupang-Date': datetime,
-        },
+      await this.httpClient.request(CoupangEndpoints.stopVendorItemSale, {
+        params: { vendorItemId },
       });
     } catch (error: any) {
       console.error(
@@ -232,35 +263,19 @@ export class CoupangApiService {
    *
    * @param sellerProductId - 삭제할 상품 sellerProductId
    *
-   * @returns {Promise<AxiosResponse>} - API 응답을 포함하는 Promise
+   * @returns {Promise<void>} - 삭제 완료 후 반환되는 Promise
+   *
+   * @throws {CoupangApiError} - API 요청 실패 시 발생하는 오류
    *
    * @description
-   * 이 메서드는 다음 단계로 진행됩니다:
-   * 1. 상품 ID를 기반으로 쿠팡 API 경로 구성
-   * 2. DELETE 메서드를 위한 HMAC 서명 생성
-   * 3. API 요청 헤더에 인증 정보와 타임스탬프 추가
-   * 4. 쿠팡 API를 통해 상품 삭제 요청 실행
-   * 5. 요청의 응답을 그대로 반환
+   * 상품 ID를 경로 파라미터로 상품 삭제 엔드포인트를 호출합니다.
    *
    * 이 메서드는 오류를 캐치하지 않고 호출자에게 전달합니다.
-   * 따라서 호출자는 API 응답을 처리하거나 오류를 적절히 처리해야 합니다.
+   * 따라서 호출자는 오류를 적절히 처리해야 합니다.
    */
-  async deleteProduct(sellerProductId: string | number): Promise<AxiosResponse> {
-    const apiPath = `/v2/providers/seller_api/apis/api/v1/marketplace/seller-products/${sellerProductId}`;
-    const { authorization, datetime } = await this.signatureService.createHmacSignature(
-      'DELETE',
-      apiPath,
-      '',
-      false,
-    );
-
-    return axios.delete(`https://api-gateway.coupang.com${apiPath}`, {
-      headers: {
-        Authorization: authorization,
-        'Content-Type': 'application/json;charset=UTF-8',
-        'X-EXTENDED-TIMEOUT': '90000',
-        'X-Coupang-Date': datetime,
-      },
+  async deleteProduct(sellerProductId: string | number): Promise<void> {
+    await this.httpClient.request(CoupangEndpoints.deleteSellerProduct, {
+      params: { sellerProductId },
     });
   }
 
@@ -273,144 +288,397 @@ export class CoupangApiService {
    *
    * @description
    * 이 메서드는 다음 단계로 진행됩니다:
-   * 1. 상품 ID를 기반으로 쿠팡 API 경로 구성 (부분 업데이트용 경로 사용)
-   * 2. 업데이트할 데이터 (sellerProductId와 반품 비용)를 포함하는 요청 본문 구성
-   * 3. PUT 메서드를 위한 HMAC 서명 생성
-   * 4. API 요청 헤더에 인증 정보와 타임스탬프 추가
-   * 5. 쿠팡 API를 통해 상품 부분 업데이트 요청 실행
+   * 1. 업데이트할 데이터 (sellerProductId와 반품 비용)를 포함하는 요청 본문 구성
+   * 2. 상품 부분 업데이트 엔드포인트 호출
    *
    * 현재 구현에서는 반품 비용(returnCharge)을 5000원으로 고정하여 업데이트합니다.
    * 이 메서드는 오류를 캐치하지 않고 호출자에게 전달합니다.
    */
   async putUpdateProduct(product: any): Promise<void> {
-    const updatePath = `/v2/providers/seller_api/apis/api/v1/marketplace/seller-products/${product.sellerProductId}/partial`;
     const body = { sellerProductId: product.sellerProductId, returnCharge: 5000 };
 
-    const { authorization, datetime } = await this.signatureService.createHmacSignature(
-      'PUT',
-      updatePath,
-      '',
-      false,
-    );
+    await this.httpClient.request(CoupangEndpoints.updateSellerProductPartial, {
+      params: { sellerProductId: product.sellerProductId },
+      body: body,
+    });
+  }
 
-    await axios.put(`https://api-gateway.coupang.com${updatePath}`, body, {
-      headers: {
-        Authorization: authorization,
-        'Content-Type': 'application/json;charset=UTF-8',
-        'X-Coupang-Date': datetime,
-      },
+  /**
+   * 쿠팡 판매자 API를 통해 특정 아이템의 판매 가격을 변경
+   *
+   * @param vendorItemId - 가격을 변경할 아이템 ID
+   * @param price - 변경할 판매 가격
+   *
+   * @returns {Promise<CoupangApiResponse<unknown>>} - 가격 변경 이력에 기록할 API 응답
+   *
+   * @throws {CoupangApiError} - API 요청 실패 시 발생하는 오류
+   */
+  async putVendorItemPrice(
+    vendorItemId: number,
+    price: number,
+  ): Promise<CoupangApiResponse<unknown>> {
+    return await this.httpClient.send(CoupangEndpoints.updateVendorItemPrice, {
+      params: { vendorItemId, price },
     });
   }
 
-  async putOrderStatus(jobId: string, jobType: string, shipmentBoxIds: string[]): Promise<void> {
-    console.log(`${jobType}${jobId}: 주문 상태 변경`);
-    const vendorId = this.configService.get<string>('COUPANG_VENDOR_ID');
-    const updatePath = `/v2/providers/openapi/apis/api/v4/vendors/${vendorId}/ordersheets/acknowledgement`;
-    const body = { vendorId: vendorId, shipmentBoxIds: shipmentBoxIds };
-
-    const { authorization, datetime } = await this.signatureService.createHmacSignature(
-      'PUT',
-      updatePath,
-      '',
-      false,
+  /**
+   * 쿠팡 판매자 API를 통해 아이템의 현재 재고, 판매가, 판매 상태를 조회
+   *
+   * @param vendorItemId - 조회할 아이템 ID
+   *
+   * @returns {Promise<CoupangVendorItemInventory>} - 아이템 재고/가격/판매상태
+   *
+   * @throws {CoupangApiError} - API 요청 실패 시 발생하는 오류
+   */
+  async getVendorItemInventory(vendorItemId: number): Promise<CoupangVendorItemInventory> {
+    return await this.httpClient.request(CoupangEndpoints.getVendorItemInventory, {
+      params: { vendorItemId },
+    });
+  }
+
+  /**
+   * 쿠팡 오픈 API를 통해 발주서를 주문 확인(상품준비중) 처리하는 메서드
+   *
+   * @param jobId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param jobType - 로그 메시지에 포함될 작업 유형 식별자
+   * @param shipmentBoxIds - 주문 확인할 발주서 ID 배열
+   *
+   * @returns {Promise<OrderAcknowledgementResult>} - 발주서별 성공/실패/재시도 대상 분류 결과
+   *
+   * @description
+   * 이 메서드는 다음 단계로 진행됩니다:
+   * 1. 발주서 ID를 API 최대 처리 건수(50건) 단위로 분할
+   * 2. 각 묶음을 주문 확인 처리하고 응답의 responseList를 발주서별로 분류
+   *    (responseList에 없는 발주서는 재시도 대상)
+   * 3. 묶음 요청 자체가 실패하면 서버 오류/네트워크 오류는 재시도 대상, 그 외는 실패로 분류
+   *    (HTTP 200 안의 실패는 envelope의 code를 resultCode로 사용)
+   *
+   * 일부 묶음이 실패해도 나머지 묶음은 계속 처리합니다.
+   */
+  async putOrderStatus(
+    jobId: string,
+    jobType: string,
+    shipmentBoxIds: (string | number)[],
+  ): Promise<OrderAcknowledgementResult> {
+    console.log(`${jobType}${jobId}: 주문 상태 변경 ${shipmentBoxIds.length}건`);
+    const result: OrderAcknowledgementResult = { succeeded: [], failed: [], retryable: [] };
+    const chunkSize = 50;
+
+    for (let i = 0; i < shipmentBoxIds.length; i += chunkSize) {
+      const chunk = shipmentBoxIds.slice(i, i + chunkSize).map(Number);
+
+      try {
+        const response = await this.httpClient.request(CoupangEndpoints.acknowledgeOrderSheets, {
+          body: { vendorId: this.httpClient.vendorId, shipmentBoxIds: chunk },
+        });
+
+        const respondedIds = new Set<number>();
+        for (const item of response.responseList ?? []) {
+          respondedIds.add(Number(item.shipmentBoxId));
+
+          if (item.succeed) {
+            result.succeeded.push(item.shipmentBoxId);
+            continue;
+          }
+
+          const failure = {
+            shipmentBoxId: item.shipmentBoxId,
+            resultCode: item.resultCode,
+            resultMessage: item.resultMessage,
+          };
+          if (item.retryRequired) {
+            result.retryable.push(failure);
+          } else {
+            result.failed.push(failure);
+          }
+        }
+
+        // 응답에 없는 발주서는 처리 여부를 알 수 없으므로 재시도 대상으로 분류
+        for (const shipmentBoxId of chunk) {
+          if (respondedIds.has(shipmentBoxId)) continue;
+
+          result.retryable.push({
+            shipmentBoxId: shipmentBoxId,
+            resultCode: 'MISSING_FROM_RESPONSE',
+            resultMessage: '응답 목록에 발주서가 없습니다.',
+          });
+        }
+      } catch (error: any) {
+        console.error(
+          `${JobType.ERROR}${jobType}${jobId}: 변경 실패 (${chunk.length}건)\n`,
+          error.response?.data || error.message,
+        );
+
+        // HTTP 200 응답 안의 실패는 HTTP 상태 대신 envelope의 code를 사용
+        const status = error.response?.status;
+        const envelopeCode = error.response?.data?.code;
+        const resultCode = envelopeCode ?? status;
+        const failures = chunk.map((shipmentBoxId) => ({
+          shipmentBoxId: shipmentBoxId,
+          resultCode: resultCode !== undefined ? String(resultCode) : 'NETWORK_ERROR',
+          resultMessage: error.message,
+        }));
+
+        if (!status || status >= 500) {
+          result.retryable.push(...failures);
+        } else {
+          result.failed.push(...failures);
+        }
+      }
+    }
+
+    console.log(
+      `${jobType}${jobId}: 주문 상태 변경 완료 - 성공 ${result.succeeded.length}, 실패 ${result.failed.length}, 재시도 ${result.retryable.length}`,
     );
 
+    return result;
+  }
+
+  /**
+   * 한 발주서의 송장을 아이템 단위로 업로드하는 메서드
+   *
+   * @param jobId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param jobType - 로그 메시지에 포함될 작업 유형 식별자
+   * @param dtos - 아이템별 송장 적용 정보 (vendorItemId마다 하나)
+   *
+   * @returns {Promise<InvoiceItemOutcome[]>} - 아이템별 처리 결과
+   *
+   * @throws {CoupangApiError} - API 요청 자체가 실패한 경우
+   *
+   * @description
+   * 모든 아이템을 하나의 요청으로 전송하고, 응답의 responseList를 요청한 아이템과 짝지어 반환합니다.
+   * 응답에 포함되지 않은 아이템은 실패로 처리합니다.
+   */
+  async uploadInvoice(
+    jobId: string,
+    jobType: string,
+    dtos: CoupangInvoiceApplyDto[],
+  ): Promise<InvoiceItemOutcome[]> {
     try {
-      const result = await axios.put(`https://api-gateway.coupang.com${updatePath}`, body, {
-        headers: {
-          Authorization: authorization,
-          'Content-Type': 'application/json;charset=UTF-8',
-          'X-Coupang-Date': datetime,
-        },
+      const result = await this.httpClient.request(CoupangEndpoints.uploadInvoices, {
+        body: { vendorId: this.httpClient.vendorId, orderSheetInvoiceApplyDtos: dtos },
       });
-      console.log(JSON.stringify(result.data, null, 2));
+
+      return this.matchInvoiceOutcomes(dtos, result);
     } catch (error: any) {
-      console.error(`${JobType.ERROR}${jobType}${jobId}: 변경 실패\n`, error);
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 송장 업로드 실패\n`,
+        error.response?.data || error.message,
+      );
+      throw error;
     }
   }
 
   /**
-   * 단일 송장을 업로드하고 지정된 시간만큼 대기합니다.
-   * @param jobId 크론 작업 ID
-   * @param jobType 작업 유형
-   * @param invoice 업로드할 송장 정보
+   * 이미 업로드된 송장의 택배사/운송장 번호를 정정하는 메서드
+   *
+   * @param jobId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param jobType - 로그 메시지에 포함될 작업 유형 식별자
+   * @param dtos - 아이템별 새 송장 정보
+   *
+   * @returns {Promise<InvoiceItemOutcome[]>} - 아이템별 처리 결과
+   *
+   * @throws {CoupangApiError} - API 요청 자체가 실패한 경우
+   *
+   * @description
+   * 쿠팡의 송장 업데이트 API를 사용하며, 요청과 응답 형식은 송장 업로드와 동일합니다.
    */
-  async uploadInvoice(jobId: string, jobType: string, invoice: CoupangInvoice) {
-    const vendorId = this.configService.get<string>('COUPANG_VENDOR_ID');
-    const path = `/v2/providers/openapi/apis/api/v4/vendors/${vendorId}/orders/invoices`;
-    const body = {
-      vendorId: vendorId,
-      orderSheetInvoiceApplyDtos: [
-        {
-          shipmentBoxId: invoice.shipmentBoxId,
-          orderId: invoice.orderId,
-          deliveryCompanyCode: invoice.deliveryCompanyCode,
-          invoiceNumber: invoice.courier.trackNumber,
-          vendorItemId: invoice.items[0].vendorItemId,
-          splitShipping: false,
-          preSplitShipped: false,
-          estimatedShippingDate: '',
-        },
-      ],
-    };
-
-    const { authorization, datetime } = await this.signatureService.createHmacSignature(
-      'POST',
-      path,
-      '',
-      false,
-    );
-
+  async correctInvoice(
+    jobId: string,
+    jobType: string,
+    dtos: CoupangInvoiceApplyDto[],
+  ): Promise<InvoiceItemOutcome[]> {
     try {
-      const result = await axios.post(`https://api-gateway.coupang.com${path}`, body, {
-        headers: {
-          Authorization: authorization,
-          'Content-Type': 'application/json;charset=UTF-8',
-          'X-Coupang-Date': datetime,
-        },
+      const result = await this.httpClient.request(CoupangEndpoints.updateInvoices, {
+        body: { vendorId: this.httpClient.vendorId, orderSheetInvoiceApplyDtos: dtos },
       });
 
-      if (result.data.data.responseMessage === 'FAIL') throw new Error(result.data);
+      return this.matchInvoiceOutcomes(dtos, result);
     } catch (error: any) {
-      console.error(`${JobType.ERROR}${jobType}${jobId}: 실패\n`, error);
-      throw new Error(error);
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 송장 정정 실패\n`,
+        error.response?.data || error.message,
+      );
+      throw error;
     }
   }
 
   /**
-   * 쿠팡의 특정 주문 정보를 조회하는 메서드
+   * 송장 API 응답의 responseList를 요청한 아이템과 짝지음
    *
-   * @returns {Promise<void>} - 작업이 완료되면 resolve되는 Promise
+   * @param dtos - 요청한 아이템별 송장 정보
+   * @param response - 송장 API 응답
+   * @returns {InvoiceItemOutcome[]} - 요청 순서대로 정렬된 아이템별 결과
    *
-   * @remarks
-   * 쿠팡 오픈 API를 사용하여 하드코딩된 주문번호(미정)의 정보를 조회합니다.
-   * HMAC 서명을 생성하여 인증 헤더와 함께 GET 요청을 전송합니다.
-   * 응답 데이터는 콘솔에 출력됩니다.
+   * @description
+   * 1. 응답 항목에 vendorItemId가 있으면 (shipmentBoxId, vendorItemId)로 짝지음
+   * 2. 없고 responseList가 요청과 같은 길이면 순서대로 짝지음
+   * 3. 그 외에는 발주서 단위 결과로 보고, 발주서의 응답이 하나일 때만 그 결과를 발주서의 모든 아이템에 적용
+   *    (발주서의 응답이 여러 개면 어느 아이템의 결과인지 알 수 없으므로 실패로 처리)
+   */
+  private matchInvoiceOutcomes(
+    dtos: CoupangInvoiceApplyDto[],
+    response: CoupangBatchResponse,
+  ): InvoiceItemOutcome[] {
+    const responseList = response?.responseList ?? [];
+    const hasItemIds = responseList.some((item) => item.vendorItemId != null);
+
+    const byBox = new Map<string, CoupangBatchResponse['responseList']>();
+    for (const item of responseList) {
+      const key = String(item.shipmentBoxId);
+      byBox.set(key, [...(byBox.get(key) ?? []), item]);
+    }
+
+    return dtos.map((dto, i) => {
+      const outcome = {
+        shipmentBoxId: dto.shipmentBoxId,
+        vendorItemId: dto.vendorItemId,
+      };
+
+      let matched: CoupangBatchResponse['responseList'][number] | undefined;
+      if (hasItemIds) {
+        matched = responseList.find(
+          (item) =>
+            String(item.shipmentBoxId) === String(dto.shipmentBoxId) &&
+            String(item.vendorItemId) === String(dto.vendorItemId),
+        );
+      } else if (responseList.length === dtos.length) {
+        matched = responseList[i];
+      } else {
+        const boxResponses = byBox.get(String(dto.shipmentBoxId)) ?? [];
+        if (boxResponses.length > 1) {
+          return {
+            ...outcome,
+            succeed: false,
+            resultCode: 'AMBIGUOUS_RESPONSE',
+            resultMessage: '발주서의 응답이 여러 개라 아이템 결과를 구분할 수 없습니다.',
+            retryRequired: false,
+          };
+        }
+        matched = boxResponses[0];
+      }
+
+      return {
+        ...outcome,
+        succeed: matched?.succeed ?? false,
+        resultCode: matched?.resultCode ?? 'NO_RESPONSE',
+        resultMessage: matched?.resultMessage ?? response?.responseMessage ?? '응답 없음',
+        retryRequired: matched?.retryRequired ?? false,
+      };
+    });
+  }
+
+  /**
+   * 쿠팡 오픈 API를 통해 기간 내 특정 상태의 발주서 목록을 조회
+   *
+   * @param jobId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param jobType - 로그 메시지에 포함될 작업 유형 식별자
+   * @param status - 조회할 발주서 상태
+   * @param from - 조회 시작일 (주문일 기준, 한국 시간)
+   * @param to - 조회 종료일 (주문일 기준, 한국 시간)
    *
-   * @example
-   * // 하드코딩된 주문번호의 주문 정보 조회하기
-   * await getOrder();
+   * @returns {Promise<CoupangOrderSheet[]>} - 기간 내 모든 발주서 배열
    *
+   * @throws {CoupangApiError} - API 요청 실패 시 발생하는 오류
+   *
+   * @description
+   * 이 메서드는 다음 단계로 진행됩니다:
+   * 1. 조회 기간을 API 최대 조회 기간(31일) 단위로 분할
+   * 2. 각 구간마다 nextToken을 사용하여 모든 페이지를 순차적으로 조회
+   * 3. 분할 구간 경계에서 중복된 발주서를 shipmentBoxId 기준으로 제거하여 반환
    */
-  async getOrder() {
-    const vendorId = this.configService.get<string>('COUPANG_VENDOR_ID');
-    const path = `/v2/providers/openapi/apis/api/v4/vendors/${vendorId}/25100104633733/ordersheets`;
-
-    const { authorization, datetime } = await this.signatureService.createHmacSignature(
-      'GET',
-      path,
-      '',
-      false,
-    );
+  async getOrderSheets(
+    jobId: string,
+    jobType: string,
+    status: CoupangOrderSheetStatus,
+    from: Date | string,
+    to: Date | string,
+  ): Promise<CoupangOrderSheet[]> {
+    console.log(`${jobType}${jobId}: 쿠팡 발주서 조회 (상태: ${status})...`);
+
+    const orderSheets = new Map<number, CoupangOrderSheet>();
+
+    for (const [createdAtFrom, createdAtTo] of this.splitDateRange(from, to, 31)) {
+      let nextToken = '';
+
+      do {
+        const response = await this.httpClient.send(CoupangEndpoints.getOrderSheets, {
+          query: [
+            ['createdAtFrom', createdAtFrom],
+            ['createdAtTo', createdAtTo],
+            ['status', status],
+            ['maxPerPage', 50],
+            ['nextToken', nextToken || undefined],
+          ],
+        });
+
+        for (const orderSheet of response.data ?? []) {
+          orderSheets.set(orderSheet.shipmentBoxId, orderSheet);
+        }
+
+        nextToken = response.nextToken;
+        if (nextToken) await new Promise((resolve) => setTimeout(resolve, 500));
+      } while (nextToken);
+    }
 
-    const result = await axios.get(`https://api-gateway.coupang.com${path}`, {
-      headers: {
-        Authorization: authorization,
-        'Content-Type': 'application/json;charset=UTF-8',
-        'X-Coupang-Date': datetime,
-      },
+    console.log(`${jobType}${jobId}: 쿠팡 발주서 조회 완료 - ${orderSheets.size}건`);
+
+    return [...orderSheets.values()];
+  }
+
+  /**
+   * 주문번호로 발주서 목록을 조회하는 메서드
+   *
+   * @param orderId - 조회할 주문번호
+   *
+   * @returns {Promise<CoupangOrderSheet[]>} - 주문에 포함된 발주서(shipmentBox) 배열
+   *
+   * @throws {CoupangApiError} - API 요청 실패 시 발생하는 오류
+   */
+  async getOrderSheetsByOrderId(orderId: string | number): Promise<CoupangOrderSheet[]> {
+    return this.httpClient.request(CoupangEndpoints.getOrderSheetsByOrderId, {
+      params: { orderId },
     });
-    console.log(JSON.stringify(result.data, null, 2));
+  }
+
+  /**
+   * 조회 기간을 최대 일수 단위의 구간으로 분할
+   *
+   * @param from - 시작일
+   * @param to - 종료일
+   * @param maxDays - 한 구간의 최대 일수 (시작일과 종료일 포함)
+   * @returns {[string, string][]} - yyyy-MM-dd 형식의 [시작일, 종료일] 구간 배열
+   */
+  private splitDateRange(
+    from: Date | string,
+    to: Date | string,
+    maxDays: number,
+  ): [string, string][] {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const start = Date.parse(this.toKstDate(from));
+    const end = Date.parse(this.toKstDate(to));
+    const ranges: [string, string][] = [];
+
+    for (let cursor = start; cursor <= end; cursor += maxDays * dayMs) {
+      const rangeEnd = Math.min(cursor + (maxDays - 1) * dayMs, end);
+      ranges.push([
+        new Date(cursor).toISOString().slice(0, 10),
+        new Date(rangeEnd).toISOString().slice(0, 10),
+      ]);
+    }
+
+    return ranges;
+  }
+
+  /**
+   * 날짜를 한국 시간 기준 yyyy-MM-dd 문자열로 변환
+   *
+   * @param date - Date 객체 또는 yyyy-MM-dd 문자열
+   */
+  private toKstDate(date: Date | string): string {
+    if (typeof date === 'string') return date.slice(0, 10);
+    return new Date(date.getTime() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10);
   }
 
   /**
@@ -420,28 +688,12 @@ export class CoupangApiService {
    *
    * @remarks
    * 쿠팡 셀러 API를 사용하여 판매자의 상품 유입 상태를 조회합니다.
-   * HMAC 서명을 생성하여 인증 헤더와 함께 GET 요청을 전송합니다.
    * 응답 데이터는 콘솔에 출력됩니다.
    *
    * @todo 페이지네이션이나 필터링 파라미터를 추가하는 것이 좋을 수 있습니다.
    */
   async getProductInflow(): Promise<void> {
-    const path = `/v2/providers/seller_api/apis/api/v1/marketplace/seller-products/inflow-status`;
-
-    const { authorization, datetime } = await this.signatureService.createHmacSignature(
-      'GET',
-      path,
-      '',
-      false,
-    );
-
-    const result = await axios.get(`https://api-gateway.coupang.com${path}`, {
-      headers: {
-        Authorization: authorization,
-        'Content-Type': 'application/json;charset=UTF-8',
-        'X-Coupang-Date': datetime,
-      },
-    });
-    console.log(JSON.stringify(result.data, null, 2));
+    const result = await this.httpClient.send(CoupangEndpoints.getSellerProductInflowStatus);
+    console.log(JSON.stringify(result, null, 2));
   }
 }
@@ -0,0 +1,356 @@
+import { JobType } from '@daechanjo/models';
+import { RabbitMQService } from '@daechanjo/rabbitmq';
+import { Injectable } from '@nestjs/common';
+import * as XLSX from 'xlsx';
+
+import { CoupangApiService } from './coupang.api.service';
+import { CatalogueChange, CatalogueSyncSummary } from './types/coupangCatalogue.types';
+import { CoupangListedProduct } from './types/coupangProduct.types';
+import { CoupangSellerProductEntity } from '../infrastructure/entities/coupangSellerProduct.entity';
+import { CoupangVendorItemEntity } from '../infrastructure/entities/coupangVendorItem.entity';
+import { CoupangCatalogueRepository } from '../infrastructure/repository/coupang.catalogue.repository';
+
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const toNullableString = (value: unknown): string | null =>
+  value === null || value === undefined || value === '' ? null : String(value);
+
+const toNullableNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * 쿠팡 판매자 상품 목록을 로컬 카탈로그 테이블과 동기화하는 서비스
+ *
+ * 다른 서비스는 쿠팡 API를 페이지 단위로 다시 조회하지 않고 로컬 카탈로그를 조회합니다.
+ */
+@Injectable()
+export class CoupangCatalogueService {
+  private isSyncing = false;
+
+  constructor(
+    private readonly coupangApiService: CoupangApiService,
+    private readonly coupangCatalogueRepository: CoupangCatalogueRepository,
+    private readonly rabbitmqService: RabbitMQService,
+  ) {}
+
+  /**
+   * 판매자 상품 목록을 조회하여 로컬 카탈로그와 동기화하는 메서드
+   *
+   * @param jobId - 작업 식별을 위한 고유 ID (동기화 실행 ID로 기록)
+   * @param jobType - 작업 유형
+   * @param options.refreshItems - 변경이 없는 상품도 상세 조회로 아이템을 갱신할지 여부 (기본 false)
+   *
+   * @returns {Promise<CatalogueSyncSummary>} 동기화된 상품 수, 아이템 갱신 결과, 변경 내역, 리포트 파일 경로
+   *
+   * @description
+   * 1. getProductListPaging으로 상태와 관계없이 전체 판매자 상품을 조회 (반려 상품은 반려 사유 포함)
+   * 2. 직전 동기화 상태와 비교하여 신규, 삭제, 상품명 변경, 상태 변경 내역 생성
+   * 3. 판매자 상품을 sellerProductId 기준으로 갱신하고 조회되지 않은 상품은 삭제 표시
+   * 4. 신규/변경 상품과 아이템을 아직 수집하지 않은 상품만 상세 조회하여 아이템(옵션)을 갱신
+   * 5. 변경 내역이 있으면 Excel 파일로 생성하여 이메일 발송 큐에 메시지 전송
+   *
+   * 목록이 비어 있는데 카탈로그에 상품이 있으면 API 이상으로 보고 전체 삭제 표시를 하지 않습니다.
+   * 이전 동기화가 진행 중이면 건너뜁니다.
+   */
+  async syncCatalogue(
+    jobId: string,
+    jobType: string,
+    options: { refreshItems?: boolean } = {},
+  ): Promise<CatalogueSyncSummary> {
+    const emptySummary: CatalogueSyncSummary = {
+      syncRunId: jobId,
+      productCount: 0,
+      itemsRefreshed: 0,
+      itemsFailed: 0,
+      changes: [],
+      filePath: null,
+    };
+
+    if (this.isSyncing) {
+      console.warn(`${jobType}${jobId}: 이전 카탈로그 동기화가 진행 중입니다. 건너뜁니다.`);
+      return emptySummary;
+    }
+
+    this.isSyncing = true;
+    try {
+      console.log(`${jobType}${jobId}: 카탈로그 동기화 시작`);
+
+      const products = await this.coupangApiService.getProductListPaging(jobId, jobType, {
+        status: 'ALL',
+      });
+      const existingProducts = await this.coupangCatalogueRepository.findAllSellerProducts();
+      const activeCount = existingProducts.filter((product) => !product.removedAt).length;
+
+      if (products.length === 0 && activeCount > 0) {
+        console.warn(
+          `${JobType.ERROR}${jobType}${jobId}: 판매자 상품 목록이 비어 있어 카탈로그 동기화를 중단합니다 (기존 ${activeCount}개)`,
+        );
+        return emptySummary;
+      }
+
+      const existingById = new Map(
+        existingProducts.map((product) => [String(product.sellerProductId), product]),
+      );
+      const changes: CatalogueChange[] = [];
+      const needsItems = new Set<string>();
+      const syncedAt = new Date();
+
+      const rows: Partial<CoupangSellerProductEntity>[] = products.map(
+        (product: CoupangListedProduct) => {
+          const sellerProductId = String(product.sellerProductId);
+          const previous = existingById.get(sellerProductId);
+          const row = this.toSellerProductRow(product, jobId, syncedAt);
+
+          const productChanges = this.diffSellerProduct(previous, row);
+          changes.push(...productChanges);
+
+          // 신규/변경 상품과 아이템을 아직 수집하지 않은 상품만 상세 조회
+          if (productChanges.length > 0 || !previous.itemsSyncedAt || options.refreshItems) {
+            needsItems.add(sellerProductId);
+          }
+
+          return { ...row, id: previous?.id };
+        },
+      );
+
+      const listedIds = new Set(rows.map((row) => row.sellerProductId));
+      const removedProducts = existingProducts.filter(
+        (product) => !product.removedAt && !listedIds.has(String(product.sellerProductId)),
+      );
+      for (const product of removedProducts) {
+        changes.push({
+          type: 'REMOVED',
+          sellerProductId: String(product.sellerProductId),
+          sellerProductName: product.sellerProductName,
+          before: product.statusName,
+          after: null,
+        });
+      }
+
+      const savedProducts = await this.coupangCatalogueRepository.saveSellerProducts(rows);
+      await this.coupangCatalogueRepository.markSellerProductsRemoved(
+        removedProducts.map((product) => product.id),
+      );
+
+      const { itemsRefreshed, itemsFailed } = await this.refreshVendorItems(
+        jobId,
+        jobType,
+        savedProducts.filter((product) => needsItems.has(String(product.sellerProductId))),
+      );
+
+      const filePath =
+        changes.length > 0 ? await this.sendChangeReport(jobId, jobType, changes) : null;
+
+      console.log(
+        `${jobType}${jobId}: 카탈로그 동기화 완료 - 상품 ${rows.length}개, 변경 ${changes.length}건, 아이템 갱신 ${itemsRefreshed}개 (실패 ${itemsFailed}개)`,
+      );
+
+      return {
+        syncRunId: jobId,
+        productCount: rows.length,
+        itemsRefreshed: itemsRefreshed,
+        itemsFailed: itemsFailed,
+        changes: changes,
+        filePath: filePath,
+      };
+    } catch (error: any) {
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 카탈로그 동기화 실패\n`,
+        error.response?.data || error.message,
+      );
+      throw error;
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  /**
+   * 로컬 카탈로그의 판매자 상품을 조회하는 메서드
+   *
+   * @param filter - 상품 상태명, 판매자 상품 ID 목록, 삭제 표시된 상품 포함 여부 (모두 선택)
+   *
+   * @returns {Promise<CoupangSellerProductEntity[]>} 아이템(옵션)을 포함한 판매자 상품 목록
+   */
+  async getCatalogueProducts(
+    filter: {
+      statusName?: string;
+      sellerProductIds?: (string | number)[];
+      includeRemoved?: boolean;
+    } = {},
+  ): Promise<CoupangSellerProductEntity[]> {
+    return await this.coupangCatalogueRepository.findSellerProducts({
+      statusName: filter?.statusName,
+      sellerProductIds: filter?.sellerProductIds?.map(String),
+      includeRemoved: filter?.includeRemoved ?? false,
+    });
+  }
+
+  /**
+   * 목록 API의 판매자 상품을 카탈로그 행으로 변환
+   */
+  private toSellerProductRow(
+    product: CoupangListedProduct,
+    syncRunId: string,
+    syncedAt: Date,
+  ): Partial<CoupangSellerProductEntity> {
+    return {
+      sellerProductId: String(product.sellerProductId),
+      sellerProductName: product.sellerProductName ?? null,
+      productId: toNullableString(product.productId),
+      displayCategoryCode: toNullableString(product.displayCategoryCode),
+      brand: product.brand ?? null,
+      statusName: product.statusName ?? null,
+      rejectionReason: product.rejectionReason ?? null,
+      saleStartedAt: toDate(product.saleStartedAt),
+      saleEndedAt: toDate(product.saleEndedAt),
+      syncRunId: syncRunId,
+      lastSyncedAt: syncedAt,
+      removedAt: null,
+    };
+  }
+
+  /**
+   * 직전 동기화 상태와 비교하여 변경 내역 생성 (삭제 내역은 호출하는 쪽에서 생성)
+   */
+  private diffSellerProduct(
+    previous: CoupangSellerProductEntity | undefined,
+    current: Partial<CoupangSellerProductEntity>,
+  ): CatalogueChange[] {
+    const base = {
+      sellerProductId: current.sellerProductId,
+      sellerProductName: current.sellerProductName,
+    };
+
+    if (!previous || previous.removedAt) {
+      return [{ ...base, type: 'NEW', before: null, after: current.statusName }];
+    }
+
+    const changes: CatalogueChange[] = [];
+    if ((previous.sellerProductName ?? null) !== current.sellerProductName) {
+      changes.push({
+        ...base,
+        type: 'RENAMED',
+        before: previous.sellerProductName,
+        after: current.sellerProductName,
+      });
+    }
+    if ((previous.statusName ?? null) !== current.statusName) {
+      changes.push({
+        ...base,
+        type: 'STATUS_CHANGED',
+        before: previous.statusName,
+        after: current.statusName,
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * 상품 상세 API로 아이템(옵션)을 갱신 (상품 하나의 조회 실패는 건너뛰고 계속 진행)
+   */
+  private async refreshVendorItems(
+    jobId: string,
+    jobType: string,
+    products: CoupangSellerProductEntity[],
+  ): Promise<{ itemsRefreshed: number; itemsFailed: number }> {
+    let itemsRefreshed = 0;
+    let itemsFailed = 0;
+
+    for (const [index, product] of products.entries()) {
+      if (index > 0 && index % 100 === 0) {
+        console.log(`${jobType}${jobId}: 아이템 갱신 진행중 - ${index}/${products.length}`);
+      }
+
+      try {
+        const detail = await this.coupangApiService.getProductDetail(
+          jobId,
+          jobType,
+          Number(product.sellerProductId),
+        );
+
+        const items: Partial<CoupangVendorItemEntity>[] = (detail?.items ?? [])
+          .filter((item: any) => item.vendorItemId)
+          .map((item: any) => ({
+            vendorItemId: String(item.vendorItemId),
+            itemName: item.itemName ?? null,
+            originalPrice: toNullableNumber(item.originalPrice),
+            salePrice: toNullableNumber(item.salePrice),
+            maximumBuyCount: toNullableNumber(item.maximumBuyCount),
+            externalVendorSku: toNullableString(item.externalVendorSku),
+          }));
+
+        await this.coupangCatalogueRepository.replaceVendorItems(product, items);
+        itemsRefreshed++;
+      } catch (error: any) {
+        itemsFailed++;
+        console.error(
+          `${JobType.ERROR}${jobType}${jobId}: 아이템 갱신 실패 ${product.sellerProductId}\n`,
+          error.response?.data || error.message,
+        );
+      }
+    }
+
+    return { itemsRefreshed, itemsFailed };
+  }
+
+  /**
+   * 변경 내역을 Excel 파일로 생성하여 이메일 발송 큐에 메시지 전송
+   */
+  private async sendChangeReport(
+    jobId: string,
+    jobType: string,
+    changes: CatalogueChange[],
+  ): Promise<string> {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(
+        changes.map((change) => ({
+          Type: change.type,
+          'Seller Product ID': change.sellerProductId,
+          'Product Name': change.sellerProductName,
+          Before: change.before,
+          After: change.after,
+        })),
+      ),
+      'Changes',
+    );
+    const filePath =
+      '/Users/daechanjo/codes/project/auto-store/tmp/coupang_catalogue_changes_' + jobId + '.xlsx';
+
+    XLSX.writeFile(workbook, filePath);
+
+    const countByType = (type: CatalogueChange['type']) =>
+      changes.filter((change) => change.type === type).length;
+
+    try {
+      await this.rabbitmqService.emit('mail-queue', 'sendUpdateEmail', {
+        jobId: jobId,
+        jobType: jobType,
+        jobName: '쿠팡 카탈로그 변경',
+        data: {
+          filePath: filePath,
+          newCount: countByType('NEW'),
+          removedCount: countByType('REMOVED'),
+          renamedCount: countByType('RENAMED'),
+          statusChangedCount: countByType('STATUS_CHANGED'),
+        },
+      });
+    } catch (error: any) {
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 메시지 전송 실패\n`,
+        error.response?.data || error.message,
+      );
+    }
+
+    return filePath;
+  }
+}
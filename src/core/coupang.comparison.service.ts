@@ -0,0 +1,122 @@
+import { JobType } from '@daechanjo/models';
+import { RabbitMQService } from '@daechanjo/rabbitmq';
+import { Injectable } from '@nestjs/common';
+
+import { WinnerChangeEvent } from './types/coupangComparison.types';
+import { CoupangComparisonEntity } from '../infrastructure/entities/coupangComparison.entity';
+import { CoupangRepository } from '../infrastructure/repository/coupang.repository';
+
+/**
+ * 가격 비교 스냅샷(coupang_comparison)을 실행 간 비교하는 서비스
+ */
+@Injectable()
+export class CoupangComparisonService {
+  constructor(
+    private readonly coupangRepository: CoupangRepository,
+    private readonly rabbitmqService: RabbitMQService,
+  ) {}
+
+  /**
+   * 직전 크롤링 실행의 스냅샷과 비교하여 아이템 위너 변동을 감지하고 알림을 전송합니다.
+   *
+   * @param jobId - 작업 식별을 위한 고유 ID
+   * @param jobType - 작업 유형
+   * @param crawlRunId - 비교할 크롤링 실행 ID
+   * @param winnerStatus - 지정하면 현재 스냅샷에서 해당 위너 상태인 아이템만 비교
+   *                       (위너/루저 크롤링이 나누어 실행될 때 같은 변동이 중복 감지되지 않도록 함)
+   *
+   * @returns {Promise<WinnerChangeEvent[]>} 위너 변동 이벤트 (위너 상실은 최근 매출 내림차순)
+   *
+   * @description
+   * 1. 현재 실행이 시작되기 전에 완료된 가장 최근 크롤링 실행을 직전 스냅샷으로 사용
+   *    (순서는 스냅샷 행 ID가 아닌 실행 완료 시각 기준이며, 실패한 실행은 건너뜀)
+   * 2. 두 스냅샷에 모두 있는 아이템 중 winnerStatus가 바뀐 아이템을 이벤트로 생성
+   * 3. 이벤트가 있으면 mail-queue에 위너 변동 알림 메시지 전송
+   */
+  async detectWinnerChanges(
+    jobId: string,
+    jobType: string,
+    crawlRunId: string,
+    winnerStatus?: boolean,
+  ): Promise<WinnerChangeEvent[]> {
+    const previousRunId = await this.coupangRepository.findPreviousComparisonRunId(crawlRunId);
+    if (!previousRunId) {
+      console.log(`${jobType}${jobId}: 비교할 이전 가격 비교 스냅샷이 없습니다.`);
+      return [];
+    }
+
+    const [current, previous] = await Promise.all([
+      this.coupangRepository.getComparisons(crawlRunId),
+      this.coupangRepository.getComparisons(previousRunId),
+    ]);
+    const previousByItem = new Map(previous.map((row) => [String(row.vendorItemId), row]));
+
+    const events: WinnerChangeEvent[] = [];
+    for (const row of current) {
+      if (winnerStatus !== undefined && row.winnerStatus !== winnerStatus) continue;
+
+      const before = previousByItem.get(String(row.vendorItemId));
+      if (!before || before.winnerStatus === row.winnerStatus) continue;
+
+      events.push(
+        this.toWinnerChangeEvent(
+          row,
+          previousRunId,
+          row.winnerStatus ? 'WINNER_REGAINED' : 'WINNER_LOST',
+        ),
+      );
+    }
+
+    const lost = events
+      .filter((event) => event.type === 'WINNER_LOST')
+      .sort((a, b) => b.myRecentGmv - a.myRecentGmv);
+    const regained = events.filter((event) => event.type === 'WINNER_REGAINED');
+
+    console.log(
+      `${jobType}${jobId}: 아이템 위너 변동 - 상실 ${lost.length}건, 회복 ${regained.length}건`,
+    );
+
+    if (events.length > 0) {
+      try {
+        await this.rabbitmqService.emit('mail-queue', 'sendWinnerChangeAlert', {
+          jobId: jobId,
+          jobType: jobType,
+          jobName: '쿠팡 아이템 위너 변동',
+          data: { crawlRunId: crawlRunId, lost: lost, regained: regained },
+        });
+      } catch (error: any) {
+        console.error(
+          `${JobType.ERROR}${jobType}${jobId}: 메시지 전송 실패\n`,
+          error.response?.data || error.message,
+        );
+      }
+    }
+
+    return [...lost, ...regained];
+  }
+
+  private toWinnerChangeEvent(
+    row: CoupangComparisonEntity,
+    previousRunId: string,
+    type: WinnerChangeEvent['type'],
+  ): WinnerChangeEvent {
+    const priceGap =
+      row.priceGapWithWinnerProduct ??
+      (row.currentPrice !== null && row.winnerPrice !== null
+        ? row.currentPrice - row.winnerPrice
+        : null);
+
+    return {
+      type: type,
+      vendorItemId: row.vendorItemId,
+      productName: row.productName,
+      crawlRunId: row.crawlRunId,
+      previousCrawlRunId: previousRunId,
+      winnerVendorId: row.winnerVendorId,
+      winnerPrice: row.winnerPrice,
+      currentPrice: row.currentPrice,
+      priceGap: priceGap,
+      myRecentGmv: Number(row.myRecentGmv ?? 0),
+    };
+  }
+}
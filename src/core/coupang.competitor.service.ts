@@ -0,0 +1,107 @@
+import { JobType } from '@daechanjo/models';
+import { RabbitMQService } from '@daechanjo/rabbitmq';
+import { Injectable } from '@nestjs/common';
+import * as XLSX from 'xlsx';
+
+import { CompetitorAnalytics } from './types/coupangComparison.types';
+import { CoupangRepository } from '../infrastructure/repository/coupang.repository';
+
+/**
+ * 가격 비교 스냅샷의 위너 판매자(winnerVendorId)를 기준으로 경쟁 판매자를 분석하는 서비스
+ */
+@Injectable()
+export class CoupangCompetitorService {
+  constructor(
+    private readonly coupangRepository: CoupangRepository,
+    private readonly rabbitmqService: RabbitMQService,
+  ) {}
+
+  /**
+   * 경쟁 판매자 분석 리포트를 생성합니다.
+   *
+   * @param jobId - 작업 식별을 위한 고유 ID
+   * @param jobType - 작업 유형
+   * @param options.runs - 추이에 포함할 최근 크롤링 실행 수 (기본 10)
+   * @param options.limit - 분석할 상위 경쟁 판매자 수 (기본 20)
+   *
+   * @returns {Promise<CompetitorAnalytics>} 경쟁 판매자 집계, 실행별 추이, 리포트 파일 경로
+   *
+   * @description
+   * 1. 가장 최근 크롤링 실행에서 내 아이템의 위너인 판매자별로 아이템 수, 가격차, 배송비 전략, 빼앗긴 매출을 집계
+   * 2. 위너 아이템 수 상위 판매자의 최근 크롤링 실행별 위너 아이템 수 추이를 조회
+   * 3. 집계와 추이를 Excel 파일로 생성하여 이메일 발송 큐에 메시지 전송
+   */
+  async getCompetitorAnalytics(
+    jobId: string,
+    jobType: string,
+    options?: { runs?: number; limit?: number } | null,
+  ): Promise<CompetitorAnalytics> {
+    const runIds = await this.coupangRepository.findRecentComparisonRunIds(options?.runs ?? 10);
+    if (runIds.length === 0) {
+      return { crawlRunId: null, competitors: [], trend: [], filePath: null };
+    }
+
+    const crawlRunId = runIds[0];
+    const competitors = (await this.coupangRepository.aggregateCompetitors(crawlRunId)).slice(
+      0,
+      options?.limit ?? 20,
+    );
+    const trend = (
+      await this.coupangRepository.countCompetitorItemsByRun(
+        runIds,
+        competitors.map((competitor) => competitor.winnerVendorId),
+      )
+    ).sort((a, b) => a.crawledAt.getTime() - b.crawledAt.getTime());
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(
+        competitors.map((competitor) => ({
+          'Vendor ID': competitor.winnerVendorId,
+          Items: competitor.itemCount,
+          'Avg Price Gap': competitor.avgPriceGap,
+          'Median Price Gap': competitor.medianPriceGap,
+          'Avg Shipping Fee': competitor.avgShippingFee,
+          'Free Shipping (%)': Number((competitor.freeShippingRate * 100).toFixed(1)),
+          'Lost GMV (7d)': competitor.lostGmv,
+        })),
+      ),
+      'Competitors',
+    );
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(
+        trend.map((point) => ({
+          'Crawl Run ID': point.crawlRunId,
+          'Crawled At': point.crawledAt.toISOString(),
+          'Vendor ID': point.winnerVendorId,
+          Items: point.itemCount,
+        })),
+      ),
+      'Trend',
+    );
+    const filePath =
+      '/Users/daechanjo/codes/project/auto-store/tmp/coupang_competitors_' + jobId + '.xlsx';
+
+    XLSX.writeFile(workbook, filePath);
+
+    try {
+      await this.rabbitmqService.emit('mail-queue', 'sendUpdateEmail', {
+        jobId: jobId,
+        jobType: jobType,
+        jobName: '쿠팡 경쟁 판매자 분석',
+        data: { filePath: filePath, crawlRunId: crawlRunId, competitorCount: competitors.length },
+      });
+    } catch (error: any) {
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 메시지 전송 실패\n`,
+        error.response?.data || error.message,
+      );
+    }
+
+    console.log(`${jobType}${jobId}: 경쟁 판매자 분석 완료 - ${competitors.length}개 판매자`);
+
+    return { crawlRunId: crawlRunId, competitors: competitors, trend: trend, filePath: filePath };
+  }
+}
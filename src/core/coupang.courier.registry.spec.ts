@@ -0,0 +1,47 @@
+import { COUPANG_COURIERS, findCourier } from './courier/coupang.courier.registry';
+
+/**
+ * 공급사 메일의 택배사 표기와 쿠팡 택배사 코드
+ */
+const aliasVectors: { input: string; expected: string }[] = [
+  { input: 'CJ대한통운', expected: 'CJGLS' },
+  { input: 'CJ 대한통운', expected: 'CJGLS' },
+  { input: '(주)씨제이대한통운', expected: 'CJGLS' },
+  { input: 'CJ대환통운', expected: 'CJGLS' },
+  { input: 'cjgls', expected: 'CJGLS' },
+  { input: '롯데글로벌로지스', expected: 'HYUNDAI' },
+  { input: '현대택배', expected: 'HYUNDAI' },
+  { input: '한진', expected: 'HANJIN' },
+  { input: '우체국 택배', expected: 'EPOST' },
+  { input: '로젠택배', expected: 'KGB' },
+  { input: 'LOGEN', expected: 'KGB' },
+  { input: '경동화물', expected: 'KDEXP' },
+  { input: 'GS포스트박스', expected: 'CVSNET' },
+  // 끝의 '택배'를 제거한 이름으로 찾음
+  { input: '일양로지스택배', expected: 'ILYANG' },
+];
+
+describe('coupang courier registry', () => {
+  it.each(aliasVectors)('finds $input as $expected', (vector) => {
+    expect(findCourier(vector.input)?.code).toBe(vector.expected);
+  });
+
+  it.each(['우편', '퀵', '', null, '없는택배'])('does not guess a courier for %p', (input) => {
+    expect(findCourier(input)).toBeUndefined();
+  });
+
+  it('does not register the same alias for two couriers', () => {
+    const normalized = COUPANG_COURIERS.flatMap((courier) =>
+      [courier.code, courier.name, ...courier.aliases].map((key) => ({
+        key: key.toUpperCase().replace(/\s/g, ''),
+        code: courier.code,
+      })),
+    );
+
+    const conflicts = normalized.filter((entry) =>
+      normalized.some((other) => other.key === entry.key && other.code !== entry.code),
+    );
+
+    expect(conflicts).toEqual([]);
+  });
+});
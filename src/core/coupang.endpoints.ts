@@ -0,0 +1,126 @@
+import { CoupangProduct } from '@daechanjo/models';
+
+import { CoupangOrderSheet } from './types/coupangOrder.types';
+import { CoupangSellerProductHistory } from './types/coupangProduct.types';
+
+export type CoupangHttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * 쿠팡 오픈 API 엔드포인트 선언
+ *
+ * @description
+ * TParams는 경로를 구성하는 데 필요한 값, TData는 응답 envelope의 data 타입입니다.
+ * 새로운 API를 사용하려면 아래 CoupangEndpoints에 선언만 추가하면 됩니다.
+ */
+export interface CoupangEndpoint<TParams = void, TData = unknown> {
+  method: CoupangHttpMethod;
+  path: (vendorId: string, params: TParams) => string;
+  /** 타입 추론용 표식으로, 런타임에는 사용되지 않습니다 */
+  readonly __data?: TData;
+}
+
+const defineEndpoint = <TParams = void, TData = unknown>(
+  method: CoupangHttpMethod,
+  path: (vendorId: string, params: TParams) => string,
+): CoupangEndpoint<TParams, TData> => ({ method, path });
+
+const SELLER_API = '/v2/providers/seller_api/apis/api/v1/marketplace';
+const OPEN_API = '/v2/providers/openapi/apis/api/v4/vendors';
+
+/** 아이템 재고/가격/판매상태 조회 API의 응답 */
+export interface CoupangVendorItemInventory {
+  sellerItemId: number;
+  amountInStock: number;
+  salePrice: number;
+  onSale: boolean;
+}
+
+/** 송장 업로드, 주문 확인 처리 등 shipmentBox 단위 일괄 처리 API의 응답 */
+export interface CoupangBatchResponse {
+  responseCode: number;
+  responseMessage: string;
+  responseList: {
+    shipmentBoxId: number;
+    /** 송장 API는 아이템 단위 응답에 포함하는 경우가 있음 */
+    vendorItemId?: number;
+    succeed: boolean;
+    resultCode: string;
+    retryRequired: boolean;
+    resultMessage: string;
+  }[];
+}
+
+export const CoupangEndpoints = {
+  getSellerProducts: defineEndpoint<void, CoupangProduct[]>(
+    'GET',
+    () => `${SELLER_API}/seller-products`,
+  ),
+
+  getSellerProduct: defineEndpoint<{ sellerProductId: string | number }, CoupangProduct>(
+    'GET',
+    (_, { sellerProductId }) => `${SELLER_API}/seller-products/${sellerProductId}`,
+  ),
+
+  getSellerProductHistories: defineEndpoint<
+    { sellerProductId: string | number },
+    CoupangSellerProductHistory[]
+  >(
+    'GET',
+    (_, { sellerProductId }) => `${SELLER_API}/seller-products/${sellerProductId}/histories`,
+  ),
+
+  deleteSellerProduct: defineEndpoint<{ sellerProductId: string | number }, string>(
+    'DELETE',
+    (_, { sellerProductId }) => `${SELLER_API}/seller-products/${sellerProductId}`,
+  ),
+
+  updateSellerProductPartial: defineEndpoint<{ sellerProductId: string | number }, string>(
+    'PUT',
+    (_, { sellerProductId }) => `${SELLER_API}/seller-products/${sellerProductId}/partial`,
+  ),
+
+  getSellerProductInflowStatus: defineEndpoint<void, Record<string, unknown>>(
+    'GET',
+    () => `${SELLER_API}/seller-products/inflow-status`,
+  ),
+
+  updateVendorItemPrice: defineEndpoint<{ vendorItemId: number; price: number }, string>(
+    'PUT',
+    (_, { vendorItemId, price }) => `${SELLER_API}/vendor-items/${vendorItemId}/prices/${price}`,
+  ),
+
+  getVendorItemInventory: defineEndpoint<{ vendorItemId: number }, CoupangVendorItemInventory>(
+    'GET',
+    (_, { vendorItemId }) => `${SELLER_API}/vendor-items/${vendorItemId}/inventories`,
+  ),
+
+  stopVendorItemSale: defineEndpoint<{ vendorItemId: number }, string>(
+    'PUT',
+    (_, { vendorItemId }) => `${SELLER_API}/vendor-items/${vendorItemId}/sales/stop`,
+  ),
+
+  getOrderSheets: defineEndpoint<void, CoupangOrderSheet[]>(
+    'GET',
+    (vendorId) => `${OPEN_API}/${vendorId}/ordersheets`,
+  ),
+
+  getOrderSheetsByOrderId: defineEndpoint<{ orderId: string | number }, CoupangOrderSheet[]>(
+    'GET',
+    (vendorId, { orderId }) => `${OPEN_API}/${vendorId}/${orderId}/ordersheets`,
+  ),
+
+  acknowledgeOrderSheets: defineEndpoint<void, CoupangBatchResponse>(
+    'PUT',
+    (vendorId) => `${OPEN_API}/${vendorId}/ordersheets/acknowledgement`,
+  ),
+
+  uploadInvoices: defineEndpoint<void, CoupangBatchResponse>(
+    'POST',
+    (vendorId) => `${OPEN_API}/${vendorId}/orders/invoices`,
+  ),
+
+  updateInvoices: defineEndpoint<void, CoupangBatchResponse>(
+    'POST',
+    (vendorId) => `${OPEN_API}/${vendorId}/orders/updateInvoices`,
+  ),
+};
@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+
+import { CoupangEndpoint } from './coupang.endpoints';
+import { CoupangSignatureParams, CoupangSignatureService } from './coupang.signature.service';
+
+/**
+ * 쿠팡 오픈 API의 공통 응답 envelope
+ */
+export interface CoupangApiResponse<TData> {
+  code: number | string;
+  message: string;
+  data: TData;
+  nextToken?: string;
+}
+
+export interface CoupangRequestOptions<TParams> {
+  params?: TParams;
+  query?: CoupangSignatureParams;
+  body?: unknown;
+}
+
+/**
+ * 쿠팡 API 요청 실패 시 발생하는 오류
+ *
+ * @description
+ * HTTP 오류와 envelope의 code가 실패를 나타내는 경우를 모두 이 오류로 변환합니다.
+ * 기존 로그 패턴(error.response?.data)을 그대로 사용할 수 있도록 response를 유지합니다.
+ */
+export class CoupangApiError extends Error {
+  constructor(
+    message: string,
+    readonly method: string,
+    readonly path: string,
+    readonly response?: { status: number; data: any },
+  ) {
+    super(message);
+    this.name = 'CoupangApiError';
+  }
+}
+
+@Injectable()
+export class CoupangHttpClient {
+  private readonly baseUrl = 'https://api-gateway.coupang.com';
+  readonly vendorId: string;
+
+  constructor(
+    private readonly signatureService: CoupangSignatureService,
+    private readonly configService: ConfigService,
+  ) {
+    this.vendorId = this.configService.get<string>('COUPANG_VENDOR_ID')!;
+  }
+
+  /**
+   * 엔드포인트를 호출하고 응답 envelope 전체를 반환
+   *
+   * @param endpoint - 호출할 엔드포인트 선언
+   * @param options - 경로 파라미터, 쿼리, 요청 본문
+   *
+   * @returns {Promise<CoupangApiResponse<TData>>} - code, message, data, nextToken을 포함한 응답
+   *
+   * @throws {CoupangApiError} - HTTP 오류 또는 envelope의 code가 실패인 경우
+   *
+   * @description
+   * 서명 생성, 공통 헤더 설정, 요청 전송, envelope 검증을 한 곳에서 처리합니다.
+   * 페이징 API처럼 nextToken이 필요한 경우 이 메서드를 사용합니다.
+   */
+  async send<TParams, TData>(
+    endpoint: CoupangEndpoint<TParams, TData>,
+    options: CoupangRequestOptions<TParams> = {},
+  ): Promise<CoupangApiResponse<TData>> {
+    const path = endpoint.path(this.vendorId, options.params as TParams);
+    const { authorization, datetime, query } = this.signatureService.sign(
+      endpoint.method,
+      path,
+      options.query,
+    );
+
+    try {
+      const response = await axios.request<CoupangApiResponse<TData>>({
+        method: endpoint.method,
+        url: `${this.baseUrl}${path}${query ? `?${query}` : ''}`,
+        data: options.body,
+        headers: {
+          Authorization: authorization,
+          'Content-Type': 'application/json;charset=UTF-8',
+          'X-EXTENDED-TIMEOUT': '90000',
+          'X-Coupang-Date': datetime,
+        },
+      });
+
+      const envelope = response.data;
+      if (
+        envelope?.code === 'ERROR' ||
+        (typeof envelope?.code === 'number' && envelope.code >= 400)
+      ) {
+        throw new CoupangApiError(envelope.message, endpoint.method, path, {
+          status: response.status,
+          data: envelope,
+        });
+      }
+
+      return envelope;
+    } catch (error: any) {
+      if (error instanceof CoupangApiError) throw error;
+
+      throw new CoupangApiError(
+        error.response?.data?.message || error.message,
+        endpoint.method,
+        path,
+        error.response ? { status: error.response.status, data: error.response.data } : undefined,
+      );
+    }
+  }
+
+  /**
+   * 엔드포인트를 호출하고 응답 envelope의 data만 반환
+   *
+   * @param endpoint - 호출할 엔드포인트 선언
+   * @param options - 경로 파라미터, 쿼리, 요청 본문
+   *
+   * @returns {Promise<TData>} - 응답 envelope의 data
+   *
+   * @throws {CoupangApiError} - HTTP 오류 또는 envelope의 code가 실패인 경우
+   */
+  async request<TParams, TData>(
+    endpoint: CoupangEndpoint<TParams, TData>,
+    options: CoupangRequestOptions<TParams> = {},
+  ): Promise<TData> {
+    const response = await this.send(endpoint, options);
+    return response.data;
+  }
+}
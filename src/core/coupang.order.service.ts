@@ -0,0 +1,370 @@
+import { JobType, OrderStatus } from '@daechanjo/models';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { CoupangApiService } from './coupang.api.service';
+import {
+  CoupangOrderSheet,
+  CoupangOrderSheetStatus,
+  OrderAcknowledgementResult,
+} from './types/coupangOrder.types';
+import { CoupangOrderEntity } from '../infrastructure/entities/coupangOrder.entity';
+import { CoupangOrderStatusHistoryEntity } from '../infrastructure/entities/coupangOrderStatusHistory.entity';
+import { CoupangOrderRepository } from '../infrastructure/repository/coupang.order.repository';
+
+const ORDER_SHEET_STATUSES: CoupangOrderSheetStatus[] = [
+  'ACCEPT',
+  'INSTRUCT',
+  'DEPARTURE',
+  'DELIVERING',
+  'FINAL_DELIVERY',
+  'NONE_TRACKING',
+];
+
+/**
+ * 기존 'newGetCoupangOrderList' 호출자가 보내는 윙 주문 상태(OrderStatus)와 오픈 API 발주서 상태의 대응
+ *
+ * READY는 윙 배송 관리의 상품준비중 탭이므로 INSTRUCT로 조회합니다.
+ */
+const LEGACY_ORDER_STATUSES: Record<string, CoupangOrderSheetStatus> = {
+  READY: 'INSTRUCT',
+  ...Object.fromEntries(ORDER_SHEET_STATUSES.map((status) => [status, status])),
+};
+
+/**
+ * 윙 주문 상태를 오픈 API 발주서 상태로 변환 (대응하는 상태가 없으면 null)
+ */
+export const toOrderSheetStatus = (status: OrderStatus | string): CoupangOrderSheetStatus | null =>
+  LEGACY_ORDER_STATUSES[String(status)] ?? null;
+
+/**
+ * 쿠팡 발주서를 로컬 coupang_order 테이블과 동기화하는 서비스
+ *
+ * @description
+ * 'syncOrderSheets' 메시지/큐 작업으로 오픈 API의 발주서 목록을 조회하여 주문, 주문 아이템, 상태 변경 이력을 저장합니다.
+ * 송장 업로드, 주문 확인, CS 흐름은 윙을 다시 조회하지 않고 로컬 상태를 확인할 수 있습니다.
+ */
+@Injectable()
+export class CoupangOrderService {
+  private isSyncing = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly coupangApiService: CoupangApiService,
+    private readonly coupangOrderRepository: CoupangOrderRepository,
+  ) {}
+
+  /**
+   * 최근 기간의 발주서를 조회하여 로컬 주문 테이블과 동기화하는 메서드
+   *
+   * @param jobId - 작업 식별을 위한 고유 ID
+   * @param jobType - 작업 유형
+   * @param days - 조회할 기간 (오늘 기준 최근 일수, 기본값: COUPANG_ORDER_SYNC_DAYS 또는 7일)
+   *
+   * @returns {Promise<{ synced: number; statusChanged: number }>} 동기화된 발주서 수와 상태가 변경된 발주서 수
+   *
+   * @description
+   * 1. 모든 발주서 상태에 대해 기간 내 발주서를 조회
+   * 2. 기존 주문과 비교하여 새 주문 또는 상태가 변경된 주문의 이력 생성
+   * 3. 주문과 주문 아이템을 저장 (shipmentBoxId, vendorItemId 기준으로 갱신)
+   * 4. 이전 동기화가 진행 중이면 건너뜀
+   */
+  async syncOrderSheets(
+    jobId: string,
+    jobType: string,
+    days?: number,
+  ): Promise<{ synced: number; statusChanged: number }> {
+    if (this.isSyncing) {
+      console.warn(`${jobType}${jobId}: 이전 주문 동기화가 진행 중입니다. 건너뜁니다.`);
+      return { synced: 0, statusChanged: 0 };
+    }
+
+    this.isSyncing = true;
+    try {
+      const lookbackDays =
+        days ?? Number(this.configService.get<string>('COUPANG_ORDER_SYNC_DAYS') ?? 7);
+      const from = new Date();
+      from.setDate(from.getDate() - lookbackDays);
+      const to = new Date();
+
+      let synced = 0;
+      let statusChanged = 0;
+
+      for (const status of ORDER_SHEET_STATUSES) {
+        const orderSheets = await this.coupangApiService.getOrderSheets(
+          jobId,
+          jobType,
+          status,
+          from,
+          to,
+        );
+
+        const result = await this.saveOrderSheets(jobId, orderSheets);
+        synced += orderSheets.length;
+        statusChanged += result.statusChanged;
+      }
+
+      console.log(
+        `${jobType}${jobId}: 주문 동기화 완료 - ${synced}건 (상태 변경 ${statusChanged}건)`,
+      );
+
+      return { synced, statusChanged };
+    } catch (error: any) {
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 주문 동기화 실패\n`,
+        error.response?.data || error.message,
+      );
+      return { synced: 0, statusChanged: 0 };
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  /**
+   * 결제 완료(ACCEPT) 상태의 발주서를 모두 주문 확인 처리하는 메서드
+   *
+   * @param jobId - 작업 식별을 위한 고유 ID
+   * @param jobType - 작업 유형
+   *
+   * @returns {Promise<OrderAcknowledgementResult>} 발주서별 성공/실패/재시도 대상 분류 결과
+   *
+   * @description
+   * 1. 최근 30일간 결제 완료 상태의 발주서를 오픈 API로 조회하여 로컬에 저장
+   * 2. 조회된 발주서를 주문 확인 처리 (윙 화면 조작 없이 API로 처리)
+   * 3. 성공한 발주서의 로컬 상태를 상품준비중(INSTRUCT)으로 변경
+   */
+  async orderStatusUpdate(jobId: string, jobType: string): Promise<OrderAcknowledgementResult> {
+    console.log(`${jobType}${jobId}: 주문 상태 업데이트 시작`);
+
+    const from = new Date();
+    from.setDate(from.getDate() - 30);
+
+    const orderSheets = await this.coupangApiService.getOrderSheets(
+      jobId,
+      jobType,
+      'ACCEPT',
+      from,
+      new Date(),
+    );
+
+    if (orderSheets.length === 0) {
+      console.warn(`${jobType}${jobId}: 결제 완료 상품이 없습니다.`);
+      return { succeeded: [], failed: [], retryable: [] };
+    }
+
+    await this.saveOrderSheets(jobId, orderSheets);
+
+    const result = await this.acknowledgeOrders(
+      jobId,
+      jobType,
+      orderSheets.map((orderSheet) => orderSheet.shipmentBoxId),
+    );
+
+    console.log(`${jobType}${jobId}: 주문 상태 업데이트 완료`);
+
+    return result;
+  }
+
+  /**
+   * 발주서를 주문 확인 처리하고 성공한 발주서의 로컬 상태를 갱신하는 메서드
+   *
+   * @param jobId - 작업 식별을 위한 고유 ID
+   * @param jobType - 작업 유형
+   * @param shipmentBoxIds - 주문 확인할 발주서 ID 배열
+   *
+   * @returns {Promise<OrderAcknowledgementResult>} 발주서별 성공/실패/재시도 대상 분류 결과
+   */
+  async acknowledgeOrders(
+    jobId: string,
+    jobType: string,
+    shipmentBoxIds: (string | number)[],
+  ): Promise<OrderAcknowledgementResult> {
+    const result = await this.coupangApiService.putOrderStatus(jobId, jobType, shipmentBoxIds);
+
+    try {
+      await this.updateLocalStatus(jobId, result.succeeded, 'INSTRUCT');
+    } catch (error: any) {
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 로컬 주문 상태 갱신 실패\n`,
+        error.response?.data || error.message,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * 기존 'newGetCoupangOrderList' 호출자를 위해 최근 2주간의 발주서를 윙 주문 목록 형식으로 반환하는 메서드
+   *
+   * @param jobId - 작업 식별을 위한 고유 ID
+   * @param jobType - 작업 유형
+   * @param status - 조회할 발주서 상태 (윙 OrderStatus는 toOrderSheetStatus로 변환)
+   *
+   * @returns {Promise<string>} 윙 배송 관리 검색 응답과 같은 형식의 JSON 문자열
+   *                            ({ data: 발주서 배열, nextShipmentBoxId: null })
+   *
+   * @description
+   * 윙에 로그인하지 않고 오픈 API(CoupangApiService.getOrderSheets)로 조회합니다.
+   * 윙 응답은 첫 페이지만 담았지만, 발주서는 모든 페이지를 조회하므로 nextShipmentBoxId는 항상 null입니다.
+   */
+  async getLegacyOrderList(
+    jobId: string,
+    jobType: string,
+    status: CoupangOrderSheetStatus,
+  ): Promise<string> {
+    const from = new Date();
+    from.setDate(from.getDate() - 14);
+
+    const orderSheets = await this.coupangApiService.getOrderSheets(
+      jobId,
+      jobType,
+      status,
+      from,
+      new Date(),
+    );
+
+    return JSON.stringify({ data: orderSheets, nextShipmentBoxId: null });
+  }
+
+  /**
+   * 로컬에 저장된 주문을 조회하는 메서드
+   *
+   * @param filter - 주문 상태, 주문일 범위 (모두 선택)
+   *
+   * @returns {Promise<CoupangOrderEntity[]>} 주문 아이템을 포함한 주문 목록 (최근 주문순)
+   */
+  async getOrders(filter: {
+    status?: CoupangOrderSheetStatus;
+    from?: Date | string;
+    to?: Date | string;
+  }): Promise<CoupangOrderEntity[]> {
+    return this.coupangOrderRepository.findOrders({
+      status: filter?.status,
+      from: filter?.from ? new Date(filter.from) : undefined,
+      to: filter?.to ? new Date(filter.to) : undefined,
+    });
+  }
+
+  /**
+   * 로컬에 저장된 발주서의 상태 변경 이력을 조회하는 메서드
+   *
+   * @param shipmentBoxId - 발주서 ID
+   *
+   * @returns {Promise<CoupangOrderStatusHistoryEntity[]>} 상태 변경 이력 (오래된 순)
+   */
+  async getStatusHistories(shipmentBoxId: number): Promise<CoupangOrderStatusHistoryEntity[]> {
+    return this.coupangOrderRepository.getStatusHistories(shipmentBoxId);
+  }
+
+  /**
+   * 조회한 발주서를 저장하고 상태 변경 이력을 기록
+   *
+   * @param jobId - 작업 식별을 위한 고유 ID
+   * @param orderSheets - 저장할 발주서 목록
+   * @returns {Promise<{ statusChanged: number }>} 상태 변경(신규 포함) 이력 수
+   */
+  private async saveOrderSheets(
+    jobId: string,
+    orderSheets: CoupangOrderSheet[],
+  ): Promise<{ statusChanged: number }> {
+    const existingOrders = await this.coupangOrderRepository.findOrdersByShipmentBoxIds(
+      orderSheets.map((orderSheet) => orderSheet.shipmentBoxId),
+    );
+    const existingByBoxId = new Map(
+      existingOrders.map((order) => [String(order.shipmentBoxId), order]),
+    );
+
+    const histories: Partial<CoupangOrderStatusHistoryEntity>[] = [];
+
+    const orders = orderSheets.map((orderSheet) => {
+      const existing = existingByBoxId.get(String(orderSheet.shipmentBoxId));
+
+      if (!existing || existing.status !== orderSheet.status) {
+        histories.push({
+          shipmentBoxId: orderSheet.shipmentBoxId,
+          fromStatus: existing?.status ?? null,
+          toStatus: orderSheet.status,
+          cronId: jobId,
+        });
+      }
+
+      return this.toOrderEntity(orderSheet, existing);
+    });
+
+    await this.coupangOrderRepository.saveOrders(orders);
+    await this.coupangOrderRepository.saveStatusHistories(histories);
+
+    return { statusChanged: histories.length };
+  }
+
+  /**
+   * 로컬에 저장된 주문의 상태를 변경하고 이력을 기록
+   *
+   * @param jobId - 작업 식별을 위한 고유 ID
+   * @param shipmentBoxIds - 상태를 변경할 발주서 ID 배열
+   * @param status - 변경할 상태
+   */
+  private async updateLocalStatus(
+    jobId: string,
+    shipmentBoxIds: number[],
+    status: CoupangOrderSheetStatus,
+  ): Promise<void> {
+    const orders = await this.coupangOrderRepository.findOrdersByShipmentBoxIds(shipmentBoxIds);
+    const changedOrders = orders.filter((order) => order.status !== status);
+
+    await this.coupangOrderRepository.saveStatusHistories(
+      changedOrders.map((order) => ({
+        shipmentBoxId: order.shipmentBoxId,
+        fromStatus: order.status,
+        toStatus: status,
+        cronId: jobId,
+      })),
+    );
+    await this.coupangOrderRepository.saveOrders(
+      changedOrders.map((order) => ({ id: order.id, status: status })),
+    );
+  }
+
+  /**
+   * 발주서를 주문 엔티티로 변환 (기존 주문이 있으면 id를 유지하여 갱신)
+   */
+  private toOrderEntity(
+    orderSheet: CoupangOrderSheet,
+    existing?: CoupangOrderEntity,
+  ): Partial<CoupangOrderEntity> {
+    const existingItems = new Map(
+      (existing?.items ?? []).map((item) => [String(item.vendorItemId), item]),
+    );
+
+    return {
+      id: existing?.id,
+      shipmentBoxId: orderSheet.shipmentBoxId,
+      orderId: orderSheet.orderId,
+      status: orderSheet.status,
+      orderedAt: orderSheet.orderedAt ? new Date(orderSheet.orderedAt) : null,
+      paidAt: orderSheet.paidAt ? new Date(orderSheet.paidAt) : null,
+      ordererName: orderSheet.orderer?.name,
+      receiverName: orderSheet.receiver?.name,
+      receiverSafeNumber: orderSheet.receiver?.safeNumber,
+      receiverAddress: [orderSheet.receiver?.addr1, orderSheet.receiver?.addr2]
+        .filter(Boolean)
+        .join(' '),
+      shippingPrice: orderSheet.shippingPrice ?? 0,
+      deliveryCompanyName: orderSheet.deliveryCompanyName,
+      invoiceNumber: orderSheet.invoiceNumber,
+      items: (orderSheet.orderItems ?? []).map((item) => ({
+        id: existingItems.get(String(item.vendorItemId))?.id,
+        vendorItemId: item.vendorItemId,
+        sellerProductId: item.sellerProductId,
+        sellerProductName: item.sellerProductName,
+        vendorItemName: item.vendorItemName,
+        externalVendorSkuCode: item.externalVendorSkuCode,
+        shippingCount: item.shippingCount ?? 0,
+        salesPrice: item.salesPrice ?? 0,
+        orderPrice: item.orderPrice ?? 0,
+        cancelCount: item.cancelCount ?? 0,
+        canceled: item.canceled ?? false,
+      })) as CoupangOrderEntity['items'],
+    };
+  }
+}
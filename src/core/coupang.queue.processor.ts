@@ -3,12 +3,20 @@ import { Process, Processor } from '@nestjs/bull';
 import { Injectable } from '@nestjs/common';
 import { Job } from 'bull';
 
+import { CoupangCatalogueService } from './coupang.catalogue.service';
+import { CoupangOrderService } from './coupang.order.service';
+import { CoupangService } from './coupang.service';
 import { CoupangCrawlerService } from './crawler/coupang.crawler.service';
 
 @Processor('coupang-message-queue') // 큐 이름
 @Injectable()
 export class MessageQueueProcessor {
-  constructor(private readonly coupangCrawlerService: CoupangCrawlerService) {}
+  constructor(
+    private readonly coupangCrawlerService: CoupangCrawlerService,
+    private readonly coupangOrderService: CoupangOrderService,
+    private readonly coupangCatalogueService: CoupangCatalogueService,
+    private readonly coupangService: CoupangService,
+  ) {}
 
   @Process('process-message') // 작업 이름
   async processMessage(job: Job) {
@@ -19,8 +27,14 @@ export class MessageQueueProcessor {
     try {
       switch (pattern) {
         case 'orderStatusUpdate':
-          await this.coupangCrawlerService.orderStatusUpdate(payload.cronId, payload.type);
-          break;
+          return await this.coupangOrderService.orderStatusUpdate(payload.cronId, payload.type);
+
+        case 'syncOrderSheets':
+          const syncResult = await this.coupangOrderService.syncOrderSheets(
+            payload.cronId,
+            payload.type,
+          );
+          return { status: 'success', data: syncResult };
 
         case 'invoiceUpload':
           return await this.coupangCrawlerService.invoiceUpload(
@@ -40,6 +54,17 @@ export class MessageQueueProcessor {
           );
           return { status: 'success', data: matchedProducts };
 
+        case 'syncCatalogue':
+          const catalogueSummary = await this.coupangCatalogueService.syncCatalogue(
+            payload.cronId,
+            payload.type,
+          );
+          return { status: 'success', data: catalogueSummary };
+
+        case 'verifyPriceUpdates':
+          await this.coupangService.verifyPriceUpdates(payload.cronId, payload.type);
+          return 'success';
+
         default:
           console.warn(
             `${JobType.ERROR}${payload.type}${payload.cronId}: 알 수 없는 패턴 ${pattern}`,
@@ -50,6 +75,9 @@ export class MessageQueueProcessor {
         `${JobType.ERROR}${payload.type}${payload.cronId}: 🔥${pattern}\n`,
         error.response?.data || error.message,
       );
+
+      // 체크포인트에서 이어서 실행할 수 있는 작업은 큐가 재시도하도록 오류를 전달
+      if (pattern === 'crawlCoupangDetailProducts') throw error;
     }
   }
 }
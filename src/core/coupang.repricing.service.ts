@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { decideRepricing, DEFAULT_REPRICING_RULES } from './pricing/coupang.repricing.rules';
+import { RepricingRules, RepricingRunSummary } from './types/coupangRepricing.types';
+import { CoupangRepository } from '../infrastructure/repository/coupang.repository';
+
+/**
+ * 가격 비교 데이터(coupang_comparison)를 기준으로 판매가를 결정하는 서비스
+ *
+ * @description
+ * 위너 가격, 배송비, 쿠폰, 현재 가격에 규칙을 적용해 새 가격을 정하고
+ * coupang_update_item에 기록합니다. 기록된 가격은 coupangProductsPriceControl이 쿠팡에 반영합니다.
+ */
+@Injectable()
+export class CoupangRepricingService {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly coupangRepository: CoupangRepository,
+  ) {}
+
+  /**
+   * 환경 변수의 기본 규칙에 요청별 규칙을 덮어써 가격 재조정 규칙을 만듭니다.
+   *
+   * @param overrides - 요청에서 지정한 규칙 (지정한 항목만 적용)
+   * @returns {RepricingRules} - 적용할 가격 재조정 규칙
+   */
+  getRepricingRules(overrides: Partial<RepricingRules> = {}): RepricingRules {
+    const env = (key: string) => this.configService.get<string>(key);
+    const numberOrDefault = (value: string | undefined, fallback: number | null) =>
+      value !== undefined && value !== '' ? Number(value) : fallback;
+
+    const defaults: RepricingRules = {
+      undercutAmount: numberOrDefault(
+        env('COUPANG_REPRICE_UNDERCUT_AMOUNT'),
+        DEFAULT_REPRICING_RULES.undercutAmount,
+      )!,
+      floorPrice: numberOrDefault(
+        env('COUPANG_REPRICE_FLOOR_PRICE'),
+        DEFAULT_REPRICING_RULES.floorPrice,
+      ),
+      ceilingPrice: numberOrDefault(
+        env('COUPANG_REPRICE_CEILING_PRICE'),
+        DEFAULT_REPRICING_RULES.ceilingPrice,
+      ),
+      maxDecreaseRate: numberOrDefault(
+        env('COUPANG_REPRICE_MAX_DECREASE_RATE'),
+        DEFAULT_REPRICING_RULES.maxDecreaseRate,
+      )!,
+      includeShippingFee:
+        env('COUPANG_REPRICE_INCLUDE_SHIPPING') !== undefined
+          ? env('COUPANG_REPRICE_INCLUDE_SHIPPING') === 'true'
+          : DEFAULT_REPRICING_RULES.includeShippingFee,
+      priceUnit: DEFAULT_REPRICING_RULES.priceUnit,
+      allowIncrease:
+        env('COUPANG_REPRICE_ALLOW_INCREASE') !== undefined
+          ? env('COUPANG_REPRICE_ALLOW_INCREASE') === 'true'
+          : DEFAULT_REPRICING_RULES.allowIncrease,
+    };
+
+    return { ...defaults, ...overrides };
+  }
+
+  /**
+   * 가격 비교 데이터 전체에 규칙을 적용하고, 가격을 바꿀 아이템을 coupang_update_item에 저장합니다.
+   *
+   * @param jobId - 크론 작업 ID (저장되는 업데이트 아이템의 cronId)
+   * @param jobType - 작업 유형
+   * @param overrides - 요청별 규칙
+   * @returns {Promise<RepricingRunSummary>} - 변경 및 건너뛴 아이템 수와 사유별 집계
+   */
+  async repriceFromComparison(
+    jobId: string,
+    jobType: string,
+    overrides?: Partial<RepricingRules>,
+  ): Promise<RepricingRunSummary> {
+    const rules = this.getRepricingRules(overrides);
+    const comparisons = await this.coupangRepository.getComparisons();
+
+    console.log(`${jobType}${jobId}: 가격 재조정 시작 - 비교 데이터 ${comparisons.length}건`);
+
+    const decisions = comparisons.map((comparison) => decideRepricing(comparison, rules));
+    const updates = decisions.filter((decision) => decision.action === 'update');
+
+    await this.coupangRepository.saveUpdatedCoupangItems(
+      updates.map((decision) => ({
+        vendorItemId: decision.vendorItemId,
+        productName: decision.productName,
+        newPrice: decision.newPrice,
+        currentPrice: decision.currentPrice,
+        winnerPrice: decision.winnerPrice,
+        sellerPrice: null,
+        reason: decision.appliedRule,
+      })),
+      jobId,
+    );
+
+    const summary: RepricingRunSummary = {
+      jobId: jobId,
+      total: decisions.length,
+      updated: updates.length,
+      skipped: decisions.length - updates.length,
+      skipReasons: {},
+    };
+    for (const decision of decisions) {
+      if (!decision.skipReason) continue;
+      summary.skipReasons[decision.skipReason] =
+        (summary.skipReasons[decision.skipReason] ?? 0) + 1;
+    }
+
+    console.log(
+      `${jobType}${jobId}: 가격 재조정 완료 - 변경 ${summary.updated}건, 유지 ${summary.skipped}건`,
+    );
+
+    return summary;
+  }
+}
@@ -1,31 +1,59 @@
 import {
   AdjustData,
   CoupangComparisonWithOnchData,
-  CoupangInvoice,
   JobType,
-  InvoiceUploadResult,
   OnchWithCoupangProduct,
   CoupangPagingProduct,
 } from '@daechanjo/models';
 import { RabbitMQService } from '@daechanjo/rabbitmq';
+import { InjectQueue } from '@nestjs/bull';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import axios from 'axios';
+import { Queue } from 'bull';
 import * as XLSX from 'xlsx';
 
 import { CoupangApiService } from './coupang.api.service';
-import { CoupangSignatureService } from './coupang.signature.service';
+import { findCourier, UnknownCourierError } from './courier/coupang.courier.registry';
+import { validateTrackingNumber } from './courier/coupang.tracking.validator';
+import {
+  checkPriceCircuitBreaker,
+  checkPriceGuardrails,
+  DEFAULT_PRICE_GUARDRAILS,
+  PriceGuardrailRejection,
+  PriceGuardrails,
+} from './pricing/coupang.price.guardrails';
+import {
+  CoupangInvoiceApplyDto,
+  CoupangInvoiceUpload,
+  InvoiceCorrection,
+  InvoiceCorrectionResult,
+  InvoiceItemOutcome,
+  InvoiceItemUploadResult,
+} from './types/coupangInvoice.types';
+import {
+  PricePreview,
+  PricePreviewItem,
+  PriceRollbackResult,
+  PriceUpdateItemResult,
+} from './types/coupangPrice.types';
+import { CoupangPriceChangeEntity } from '../infrastructure/entities/coupangPriceChange.entity';
 import { CoupangUpdateItemEntity } from '../infrastructure/entities/coupangUpdateItem.entity';
+import { CoupangInvoiceRepository } from '../infrastructure/repository/coupang.invoice.repository';
+import { CoupangOrderRepository } from '../infrastructure/repository/coupang.order.repository';
+import { CoupangPriceRepository } from '../infrastructure/repository/coupang.price.repository';
 import { CoupangRepository } from '../infrastructure/repository/coupang.repository';
 
 @Injectable()
 export class CoupangService {
   constructor(
     private readonly configService: ConfigService,
-    private readonly signatureService: CoupangSignatureService,
     private readonly coupangRepository: CoupangRepository,
+    private readonly coupangOrderRepository: CoupangOrderRepository,
+    private readonly coupangInvoiceRepository: CoupangInvoiceRepository,
+    private readonly coupangPriceRepository: CoupangPriceRepository,
     private readonly rabbitmqService: RabbitMQService,
     private readonly coupangApiService: CoupangApiService,
+    @InjectQueue('coupang-message-queue') private readonly messageQueue: Queue,
   ) {}
 
   /**
@@ -193,20 +221,319 @@ export class CoupangService {
    * 7. 에러 발생 시 로그 기록 후 계속 진행
    */
   async coupangProductsPriceControl(jobId: string, jobType: string): Promise<void> {
-    console.log(`${jobType}${jobId}: 새로운 상품 가격 업데이트 시작`);
+    const updatedItems = await this.coupangRepository.getUpdatedItems(jobId);
 
-    let successCount = 0;
-    let failedCount = 0;
+    await this.applyPriceUpdates(jobId, jobType, updatedItems);
+  }
 
+  /**
+   * 쿠팡에 가격을 반영하지 않고 변경 내역만 미리 확인하는 메서드
+   *
+   * @param jobId - 미리보기할 업데이트 아이템의 cronId
+   * @param jobType - 작업 유형
+   *
+   * @returns {Promise<PricePreview>} 미리보기 ID와 아이템별 변경 내역
+   *
+   * @description
+   * 1. 업데이트가 필요한 상품 정보를 조회하여 기존 가격, 새 가격, 차액, 변경률, 위너 가격, 사유를 계산
+   * 2. 변경 내역을 미리보기로 저장 (승인 시 저장된 내역만 반영)
+   * 3. 변경 내역을 Excel 파일로 생성하여 이메일 발송 큐에 메시지 전송
+   */
+  async previewPriceUpdates(jobId: string, jobType: string): Promise<PricePreview> {
     const updatedItems = await this.coupangRepository.getUpdatedItems(jobId);
 
+    const items: PricePreviewItem[] = updatedItems.map((item) => {
+      const delta = item.newPrice - item.currentPrice;
+
+      return {
+        vendorItemId: item.vendorItemId,
+        productName: item.productName,
+        oldPrice: item.currentPrice,
+        newPrice: item.newPrice,
+        delta: delta,
+        changeRate: item.currentPrice ? Number(((delta / item.currentPrice) * 100).toFixed(2)) : 0,
+        winnerPrice: item.winnerPrice,
+        reason: item.reason ?? 'EXTERNAL',
+      };
+    });
+
+    const preview = await this.coupangRepository.savePricePreview({
+      cronId: jobId,
+      status: 'PENDING',
+      items: items,
+    });
+
+    const worksheet = XLSX.utils.json_to_sheet(
+      items.map((item) => ({
+        'Vendor Item ID': item.vendorItemId,
+        'Product Name': item.productName,
+        'Old Price': item.oldPrice,
+        'New Price': item.newPrice,
+        Delta: item.delta,
+        'Change (%)': item.changeRate,
+        'Winner Price': item.winnerPrice,
+        Reason: item.reason,
+      })),
+    );
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'PricePreview');
+    const filePath =
+      '/Users/daechanjo/codes/project/auto-store/tmp/coupang_preview_' + preview.id + '.xlsx';
+
+    XLSX.writeFile(workbook, filePath);
+
+    try {
+      await this.rabbitmqService.emit('mail-queue', 'sendUpdateEmail', {
+        jobId: jobId,
+        jobType: jobType,
+        jobName: '쿠팡 가격 변경 미리보기',
+        data: { filePath: filePath, previewId: preview.id, itemCount: items.length },
+      });
+    } catch (error: any) {
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 메시지 전송 실패\n`,
+        error.response?.data || error.message,
+      );
+    }
+
+    console.log(`${jobType}${jobId}: 가격 변경 미리보기 생성 - ${preview.id} (${items.length}건)`);
+
+    return {
+      previewId: preview.id,
+      jobId: jobId,
+      itemCount: items.length,
+      items: items,
+      filePath: filePath,
+    };
+  }
+
+  /**
+   * 승인된 가격 변경 미리보기를 쿠팡에 반영하는 메서드
+   *
+   * @param jobId - 작업 식별을 위한 고유 ID
+   * @param jobType - 작업 유형
+   * @param previewId - 반영할 미리보기 ID
+   *
+   * @throws {Error} 미리보기가 없거나 승인 대기(PENDING) 상태가 아닌 경우
+   *
+   * @description
+   * 미리보기 이후 추가된 업데이트 아이템은 반영하지 않고, 미리보기에 저장된 내역만 반영합니다.
+   * 1. 승인 대기 상태인 미리보기만 반영 중(APPLYING)으로 변경 (동시 승인 요청은 하나만 진행)
+   * 2. 저장된 내역을 쿠팡에 반영
+   * 3. 모두 성공하면 APPLIED, 일부만 성공하면 PARTIALLY_APPLIED, 성공이 없거나 오류가 발생하면 FAILED로 변경
+   */
+  async applyPricePreview(jobId: string, jobType: string, previewId: string): Promise<void> {
+    const claimed = await this.coupangRepository.claimPricePreview(previewId, jobId);
+    const preview = await this.coupangRepository.getPricePreview(previewId);
+
+    if (!preview) throw new Error(`가격 변경 미리보기를 찾을 수 없습니다: ${previewId}`);
+    if (!claimed) {
+      throw new Error(
+        `승인 대기 상태가 아닌 가격 변경 미리보기입니다: ${previewId} (${preview.status})`,
+      );
+    }
+
+    let status: 'APPLIED' | 'PARTIALLY_APPLIED' | 'FAILED' = 'FAILED';
+
+    try {
+      const results = await this.applyPriceUpdates(
+        jobId,
+        jobType,
+        preview.items.map((item) => ({
+          vendorItemId: item.vendorItemId,
+          productName: item.productName,
+          winnerPrice: item.winnerPrice,
+          currentPrice: item.oldPrice,
+          sellerPrice: null,
+          newPrice: item.newPrice,
+        })),
+      );
+
+      const successCount = results.filter((result) => result.status === 'success').length;
+      status =
+        successCount === results.length
+          ? 'APPLIED'
+          : successCount > 0
+            ? 'PARTIALLY_APPLIED'
+            : 'FAILED';
+    } finally {
+      await this.coupangRepository.finishPricePreview(previewId, status);
+      console.log(`${jobType}${jobId}: 가격 변경 미리보기 ${previewId} 반영 결과 - ${status}`);
+    }
+  }
+
+  /**
+   * 가격 업데이트 실행을 롤백하여 아이템 가격을 실행 직전 가격으로 되돌리는 메서드
+   *
+   * @param jobId - 롤백 작업 ID (롤백으로 생성되는 가격 변경 이력의 runId)
+   * @param jobType - 작업 유형
+   * @param runId - 롤백할 가격 업데이트 실행 ID
+   *
+   * @returns {Promise<PriceRollbackResult[]>} 아이템별 롤백 결과
+   *
+   * @description
+   * 1. 롤백할 실행에서 쿠팡에 반영된 가격 변경 이력을 조회
+   * 2. 실행 이후 같은 아이템의 가격이 다시 변경되었으면 최신 가격을 덮어쓰지 않도록 건너뜀
+   * 3. 나머지 아이템은 변경 전 가격으로 되돌리고 가격 변경 이력에 rollback으로 기록
+   * 4. 롤백 결과를 Excel 파일로 생성하여 이메일 발송 큐에 메시지 전송
+   */
+  async rollbackPriceRun(
+    jobId: string,
+    jobType: string,
+    runId: string,
+  ): Promise<PriceRollbackResult[]> {
+    const changes = (await this.coupangPriceRepository.getPriceChanges(runId)).filter(
+      (change) => change.status === 'success',
+    );
+
+    console.log(`${jobType}${jobId}: 가격 업데이트 ${runId} 롤백 시작 - ${changes.length}건`);
+
+    const latestChanges = new Map(
+      (
+        await this.coupangPriceRepository.findLatestSucceededChanges(
+          changes.map((change) => change.vendorItemId),
+        )
+      ).map((change) => [String(change.vendorItemId), change]),
+    );
+
+    const results: PriceRollbackResult[] = [];
+
+    for (const change of changes) {
+      const result = {
+        vendorItemId: change.vendorItemId,
+        fromPrice: change.afterPrice,
+        restoredPrice: change.beforePrice,
+      };
+
+      if (latestChanges.get(String(change.vendorItemId))?.id !== change.id) {
+        results.push({
+          ...result,
+          status: 'skipped',
+          error: '롤백 대상 실행 이후 가격이 다시 변경되었습니다',
+        });
+        continue;
+      }
+
+      const rollback = {
+        runId: jobId,
+        vendorItemId: change.vendorItemId,
+        beforePrice: change.afterPrice,
+        afterPrice: change.beforePrice,
+        source: 'rollback' as const,
+        rollbackOfRunId: runId,
+      };
+
+      let apiResponse: string;
+      let succeeded = false;
+      try {
+        const response = await this.coupangApiService.putVendorItemPrice(
+          change.vendorItemId,
+          change.beforePrice,
+        );
+        apiResponse = JSON.stringify(response);
+        succeeded = true;
+        results.push({ ...result, status: 'success', error: '' });
+      } catch (error: any) {
+        console.error(
+          `${JobType.ERROR}${jobType}${jobId}: 가격 롤백 오류-${change.vendorItemId}\n`,
+          error.response?.data || error.message,
+        );
+        apiResponse = JSON.stringify(error.response?.data ?? error.message);
+        results.push({ ...result, status: 'failed', error: error.message || '알 수 없는 오류' });
+      }
+
+      await this.savePriceChange(jobId, jobType, {
+        ...rollback,
+        status: succeeded ? 'success' : 'failed',
+        apiResponse: apiResponse,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    try {
+      const worksheet = XLSX.utils.json_to_sheet(
+        results.map((result) => ({
+          'Vendor Item ID': result.vendorItemId,
+          'From Price': result.fromPrice,
+          'Restored Price': result.restoredPrice,
+          Status: result.status,
+          Error: result.error,
+        })),
+      );
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, worksheet, 'PriceRollback');
+      const filePath =
+        '/Users/daechanjo/codes/project/auto-store/tmp/coupang_rollback_' + runId + '.xlsx';
+
+      XLSX.writeFile(workbook, filePath);
+
+      await this.rabbitmqService.emit('mail-queue', 'sendUpdateEmail', {
+        jobId: jobId,
+        jobType: jobType,
+        jobName: '쿠팡 가격 롤백',
+        data: {
+          filePath: filePath,
+          successCount: results.filter((result) => result.status === 'success').length,
+          filedCount: results.filter((result) => result.status === 'failed').length,
+        },
+      });
+    } catch (error: any) {
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 메시지 전송 실패\n`,
+        error.response?.data || error.message,
+      );
+    }
+
+    console.log(`${jobType}${jobId}: 가격 업데이트 ${runId} 롤백 완료`);
+
+    return results;
+  }
+
+  /**
+   * 아이템별 새 가격을 쿠팡에 반영하고 결과를 Excel 파일로 발송하는 메서드
+   *
+   * @returns {Promise<PriceUpdateItemResult[]>} 아이템별 반영 결과
+   *
+   * @description
+   * 1. 실행당 최대 변경 건수를 넘는 아이템은 전송하지 않고 거부
+   * 2. 아이템마다 변경 직전 실제 판매가를 조회하고, 그 가격 기준으로 최저 판매가, 최대 인하율/인상률 안전 장치를 확인하여 통과하지 못하면 거부
+   * 3. 요청마다 변경 전(실제 판매가)/후 가격, 결과, API 응답을 가격 변경 이력에 기록
+   * 4. API 실패율 또는 안전 장치 거부율이 허용치를 넘으면 서킷 브레이커가 남은 아이템 처리를 중단
+   * 5. 반영에 성공한 아이템이 있으면 실제 판매가 검증을 지연 작업으로 예약 (결과를 기다리지 않음)
+   * 6. 결과(거부 사유, 중단 여부, 검증 결과 포함)를 Excel 파일로 생성하여 이메일 발송 큐에 메시지 전송
+   */
+  private async applyPriceUpdates(
+    jobId: string,
+    jobType: string,
+    updatedItems: Pick<
+      CoupangUpdateItemEntity,
+      'vendorItemId' | 'productName' | 'winnerPrice' | 'currentPrice' | 'sellerPrice' | 'newPrice'
+    >[],
+  ): Promise<PriceUpdateItemResult[]> {
+    console.log(`${jobType}${jobId}: 새로운 상품 가격 업데이트 시작`);
+
     if (updatedItems.length === 0) {
       console.log(`${jobType}${jobId}: 새로운 업데이트가 없습니다. 종료합니다.`);
-      return;
+      return [];
     }
 
     console.log(`${jobType}${jobId}: 총 ${updatedItems.length}개의 아이템 업데이트`);
 
+    const guardrails = this.getPriceGuardrails();
+    const results: PriceUpdateItemResult[] = updatedItems.map((item) => ({
+      vendorItemId: item.vendorItemId,
+      productName: item.productName,
+      winnerPrice: item.winnerPrice,
+      currentPrice: item.currentPrice,
+      sellerPrice: item.sellerPrice,
+      newPrice: item.newPrice,
+      status: 'aborted',
+      reason: '',
+    }));
+    const counts = { attempted: 0, failed: 0, rejected: 0 };
+    let abortReason: string | null = null;
+
     for (const [i, item] of updatedItems.entries()) {
       if (i % Math.ceil(updatedItems.length / 10) === 0) {
         const progressPercentage = ((i + 1) / updatedItems.length) * 100;
@@ -216,51 +543,125 @@ export class CoupangService {
       }
 
       const vendorItemId = item.vendorItemId;
+      const result = results[i];
 
-      const priceUpdatePath = `/v2/providers/seller_api/apis/api/v1/marketplace/vendor-items/${vendorItemId}/prices/${item.newPrice}`;
+      // 가격 변경 이력의 beforePrice는 크롤링 시점 가격이 아니라 변경 직전 실제 판매가를 사용
+      let livePrice: number | null = null;
+      let rejection: PriceGuardrailRejection | null = null;
 
-      const { authorization, datetime } = await this.signatureService.createHmacSignature(
-        'PUT',
-        priceUpdatePath,
-        '',
-        false,
-      );
+      if (guardrails.maxChangesPerRun && i >= guardrails.maxChangesPerRun) {
+        rejection = {
+          code: 'MAX_CHANGES_EXCEEDED',
+          message: `실행당 최대 변경 건수(${guardrails.maxChangesPerRun}건)를 넘었습니다`,
+        };
+      } else {
+        try {
+          livePrice = (await this.coupangApiService.getVendorItemInventory(vendorItemId)).salePrice;
+          result.currentPrice = livePrice;
+          rejection = checkPriceGuardrails(livePrice, item.newPrice, guardrails);
+        } catch (error: any) {
+          counts.attempted++;
+          counts.failed++;
+          result.status = 'failed';
+          result.reason = `현재 판매가 조회 실패: ${error.message || '알 수 없는 오류'}`;
+          console.error(
+            `${JobType.ERROR}${jobType}${jobId}: 현재 판매가 조회 오류-${vendorItemId}\n`,
+            error.response?.data || error.message,
+          );
+        }
+      }
 
-      try {
-        await axios.put(`https://api-gateway.coupang.com${priceUpdatePath}`, null, {
-          headers: {
-            Authorization: authorization,
-            'Content-Type': 'application/json;charset=UTF-8',
-            'X-Coupang-Date': datetime,
-          },
+      if (rejection) {
+        // 최대 변경 건수 초과는 가격 이상이 아니므로 서킷 브레이커의 거부율에 포함하지 않음
+        if (rejection.code !== 'MAX_CHANGES_EXCEEDED') counts.rejected++;
+        result.status = 'rejected';
+        result.reason = `${rejection.code}: ${rejection.message}`;
+      } else if (livePrice !== null) {
+        const change = {
+          runId: jobId,
+          vendorItemId: vendorItemId,
+          beforePrice: livePrice,
+          afterPrice: item.newPrice,
+          source: 'update' as const,
+        };
+
+        counts.attempted++;
+
+        let apiResponse: string;
+        try {
+          const response = await this.coupangApiService.putVendorItemPrice(
+            vendorItemId,
+            item.newPrice,
+          );
+          apiResponse = JSON.stringify(response);
+          result.status = 'success';
+        } catch (error: any) {
+          counts.failed++;
+          result.status = 'failed';
+          result.reason = error.message || '알 수 없는 오류';
+          apiResponse = JSON.stringify(error.response?.data ?? error.message);
+          console.error(
+            `${JobType.ERROR}${jobType}${jobId}: 가격 업데이트 오류-${vendorItemId}\n`,
+            error.response?.data || error.message,
+          );
+        }
+
+        await this.savePriceChange(jobId, jobType, {
+          ...change,
+          status: result.status === 'success' ? 'success' : 'failed',
+          apiResponse: apiResponse,
         });
 
-        successCount++;
         await new Promise((resolve) => setTimeout(resolve, 100));
-      } catch (error: any) {
-        failedCount++;
+      }
+
+      abortReason = checkPriceCircuitBreaker(counts, guardrails);
+      if (abortReason) {
         console.error(
-          `${JobType.ERROR}${jobType}${jobId}: 가격 업데이트 오류-${vendorItemId}\n`,
-          error.response?.data || error.message,
+          `${JobType.ERROR}${jobType}${jobId}: 서킷 브레이커 작동으로 가격 업데이트 중단 - ${abortReason}`,
         );
+        for (const remaining of results.slice(i + 1)) remaining.reason = abortReason;
+        break;
       }
     }
 
+    const successCount = results.filter((result) => result.status === 'success').length;
+    const rejectedResults = results.filter((result) => result.status === 'rejected');
+
+    if (successCount > 0) await this.scheduleVerification(jobId, jobType);
+
     console.log(`${jobType}${jobId}: 엑셀 생성 시작`);
     setImmediate(async () => {
       try {
-        const excelData = updatedItems.map((item: CoupangUpdateItemEntity) => ({
-          'Vendor Item ID': item.vendorItemId,
-          'Product Name': item.productName,
-          'Winner Price': item.winnerPrice,
-          'Current Price': item.currentPrice,
-          'Seller Price': item.sellerPrice,
-          'New Price': item.newPrice,
+        const excelData = results.map((result) => ({
+          'Vendor Item ID': result.vendorItemId,
+          'Product Name': result.productName,
+          'Winner Price': result.winnerPrice,
+          'Current Price': result.currentPrice,
+          'Seller Price': result.sellerPrice,
+          'New Price': result.newPrice,
+          Status: result.status,
+          Reason: result.reason,
         }));
 
         const worksheet = XLSX.utils.json_to_sheet(excelData);
         const workbook = XLSX.utils.book_new();
         XLSX.utils.book_append_sheet(workbook, worksheet, 'UpdatedProducts');
+        if (rejectedResults.length > 0) {
+          XLSX.utils.book_append_sheet(
+            workbook,
+            XLSX.utils.json_to_sheet(
+              rejectedResults.map((result) => ({
+                'Vendor Item ID': result.vendorItemId,
+                'Product Name': result.productName,
+                'Current Price': result.currentPrice,
+                'New Price': result.newPrice,
+                Reason: result.reason,
+              })),
+            ),
+            'Rejected',
+          );
+        }
         const filePath = '/Users/daechanjo/codes/project/auto-store/tmp/coupang_' + jobId + '.xlsx';
 
         XLSX.writeFile(workbook, filePath);
@@ -270,7 +671,13 @@ export class CoupangService {
           jobId: jobId,
           jobType: jobType,
           jobName: '쿠팡 가격 업데이트',
-          data: { filePath: filePath, successCount: successCount, filedCount: failedCount },
+          data: {
+            filePath: filePath,
+            successCount: successCount,
+            filedCount: counts.failed,
+            rejectedCount: rejectedResults.length,
+            abortReason: abortReason,
+          },
         });
 
         console.log(`${jobType}${jobId}: 엑셀 파일 전송 요청 완료`);
@@ -282,7 +689,233 @@ export class CoupangService {
       }
     });
 
-    console.log(`${jobType}${jobId}: 상품 가격 업데이트 완료`);
+    console.log(
+      `${jobType}${jobId}: 상품 가격 업데이트 완료 - 성공 ${successCount}, 실패 ${counts.failed}, 거부 ${rejectedResults.length}${abortReason ? ' (중단됨)' : ''}`,
+    );
+
+    return results;
+  }
+
+  /**
+   * 가격 업데이트 실행의 반영 검증을 지연 작업으로 예약하는 메서드
+   *
+   * @param jobId - 검증할 가격 업데이트 실행 ID
+   * @param jobType - 작업 유형
+   *
+   * @description
+   * COUPANG_PRICE_VERIFY_DELAY_SECONDS(기본 60초) 후 'verifyPriceUpdates' 큐 작업으로 실행합니다 (0이면 검증하지 않음).
+   * 가격 업데이트 요청의 응답은 검증을 기다리지 않습니다.
+   */
+  private async scheduleVerification(jobId: string, jobType: string): Promise<void> {
+    const delaySeconds = Number(
+      this.configService.get<string>('COUPANG_PRICE_VERIFY_DELAY_SECONDS') ?? 60,
+    );
+    if (!delaySeconds) return;
+
+    try {
+      await this.messageQueue.add(
+        'process-message',
+        { pattern: 'verifyPriceUpdates', payload: { cronId: jobId, type: jobType } },
+        { delay: delaySeconds * 1000 },
+      );
+      console.log(`${jobType}${jobId}: ${delaySeconds}초 후 가격 반영 검증 예약`);
+    } catch (error: any) {
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 가격 반영 검증 예약 실패\n`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * 가격 변경 요청이 성공한 아이템의 실제 판매가를 다시 조회하여 반영 여부를 검증하는 메서드
+   *
+   * @param jobId - 검증할 가격 업데이트 실행 ID (가격 변경 이력의 runId)
+   * @param jobType - 작업 유형
+   *
+   * @description
+   * 쿠팡은 가격 변경 요청을 받아들이고도 변경 한도나 승인 절차 때문에 기존 가격을 유지하는 경우가 있습니다.
+   * scheduleVerification이 예약한 큐 작업에서 실행됩니다.
+   * 1. 실행에서 반영에 성공했고 아직 검증하지 않은 가격 변경 이력의 판매가를 조회
+   * 2. 판매가가 새 가격과 다르면 mismatch로 같은 이력에 기록
+   * 3. COUPANG_PRICE_VERIFY_RETRY가 true이면 재요청하지 않은 불일치 아이템의 가격 변경을 한 번 더 요청하고,
+   *    이력을 검증 전 상태(retried)로 되돌린 뒤 같은 간격 후 다시 검증하도록 예약
+   * 4. 더 검증할 이력이 없으면 검증 결과를 Excel 파일로 생성하여 이메일 발송 큐에 메시지 전송
+   */
+  async verifyPriceUpdates(jobId: string, jobType: string): Promise<void> {
+    const retry = this.configService.get<string>('COUPANG_PRICE_VERIFY_RETRY') === 'true';
+    const targets = await this.coupangPriceRepository.findUnverifiedChanges(jobId);
+
+    if (targets.length === 0) return;
+
+    console.log(`${jobType}${jobId}: 가격 반영 검증 - ${targets.length}건`);
+
+    let retried = 0;
+    for (const change of targets) {
+      let actualPrice: number | null = null;
+      let verification: CoupangPriceChangeEntity['verification'] = 'error';
+
+      try {
+        const inventory = await this.coupangApiService.getVendorItemInventory(change.vendorItemId);
+
+        actualPrice = inventory.salePrice;
+        verification = inventory.salePrice === change.afterPrice ? 'verified' : 'mismatch';
+      } catch (error: any) {
+        console.error(
+          `${JobType.ERROR}${jobType}${jobId}: 가격 검증 조회 오류-${change.vendorItemId}\n`,
+          error.response?.data || error.message,
+        );
+      }
+
+      if (verification === 'mismatch' && retry && !change.retried) {
+        let apiResponse = change.apiResponse;
+        try {
+          apiResponse = JSON.stringify(
+            await this.coupangApiService.putVendorItemPrice(change.vendorItemId, change.afterPrice),
+          );
+        } catch (error: any) {
+          console.error(
+            `${JobType.ERROR}${jobType}${jobId}: 가격 재요청 오류-${change.vendorItemId}\n`,
+            error.response?.data || error.message,
+          );
+        }
+
+        // 재요청한 이력은 다음 검증 작업에서 다시 확인
+        await this.updatePriceChange(jobId, jobType, change.id, {
+          actualPrice: actualPrice,
+          retried: true,
+          apiResponse: apiResponse,
+        });
+        retried++;
+      } else {
+        await this.updatePriceChange(jobId, jobType, change.id, {
+          actualPrice: actualPrice,
+          verification: verification,
+          verifiedAt: new Date(),
+        });
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    if (retried > 0) {
+      console.log(`${jobType}${jobId}: 가격 불일치 ${retried}건 재요청`);
+      await this.scheduleVerification(jobId, jobType);
+      return;
+    }
+
+    const changes = (await this.coupangPriceRepository.getPriceChanges(jobId)).filter(
+      (change) => change.verification,
+    );
+    const mismatchCount = changes.filter((change) => change.verification === 'mismatch').length;
+
+    console.log(`${jobType}${jobId}: 가격 반영 검증 완료 - 불일치 ${mismatchCount}건`);
+
+    try {
+      const worksheet = XLSX.utils.json_to_sheet(
+        changes.map((change) => ({
+          'Vendor Item ID': change.vendorItemId,
+          'Before Price': change.beforePrice,
+          'New Price': change.afterPrice,
+          Verification: change.verification,
+          'Actual Price': change.actualPrice ?? '',
+          Retried: change.retried ? 'Y' : '',
+        })),
+      );
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, worksheet, 'PriceVerification');
+      const filePath =
+        '/Users/daechanjo/codes/project/auto-store/tmp/coupang_verification_' + jobId + '.xlsx';
+
+      XLSX.writeFile(workbook, filePath);
+
+      await this.rabbitmqService.emit('mail-queue', 'sendUpdateEmail', {
+        jobId: jobId,
+        jobType: jobType,
+        jobName: '쿠팡 가격 반영 검증',
+        data: { filePath: filePath, verifiedCount: changes.length, mismatchCount: mismatchCount },
+      });
+    } catch (error: any) {
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 메시지 전송 실패\n`,
+        error.response?.data || error.message,
+      );
+    }
+  }
+
+  /**
+   * 가격 변경 이력을 저장 (저장에 실패해도 가격 업데이트는 계속 진행하고 오류만 기록)
+   */
+  private async savePriceChange(
+    jobId: string,
+    jobType: string,
+    change: Partial<CoupangPriceChangeEntity>,
+  ): Promise<void> {
+    try {
+      await this.coupangPriceRepository.savePriceChanges([change]);
+    } catch (error: any) {
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 가격 변경 이력 저장 실패-${change.vendorItemId}\n`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * 가격 변경 이력에 검증 결과를 기록 (기록에 실패해도 검증은 계속 진행하고 오류만 기록)
+   */
+  private async updatePriceChange(
+    jobId: string,
+    jobType: string,
+    id: number,
+    fields: Partial<CoupangPriceChangeEntity>,
+  ): Promise<void> {
+    try {
+      await this.coupangPriceRepository.updatePriceChange(id, fields);
+    } catch (error: any) {
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 가격 변경 이력 갱신 실패-${id}\n`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * 환경 변수에 설정된 가격 업데이트 안전 장치 (설정하지 않은 항목은 기본값 사용)
+   */
+  private getPriceGuardrails(): PriceGuardrails {
+    const numberOrDefault = (key: string, fallback: number | null) => {
+      const value = this.configService.get<string>(key);
+      return value !== undefined && value !== '' ? Number(value) : fallback;
+    };
+
+    return {
+      maxDropRate: numberOrDefault(
+        'COUPANG_PRICE_MAX_DROP_RATE',
+        DEFAULT_PRICE_GUARDRAILS.maxDropRate,
+      ),
+      maxRiseRate: numberOrDefault(
+        'COUPANG_PRICE_MAX_RISE_RATE',
+        DEFAULT_PRICE_GUARDRAILS.maxRiseRate,
+      ),
+      minPrice: numberOrDefault('COUPANG_PRICE_MIN_PRICE', DEFAULT_PRICE_GUARDRAILS.minPrice),
+      maxChangesPerRun: numberOrDefault(
+        'COUPANG_PRICE_MAX_CHANGES_PER_RUN',
+        DEFAULT_PRICE_GUARDRAILS.maxChangesPerRun,
+      ),
+      breakerFailureRate: numberOrDefault(
+        'COUPANG_PRICE_BREAKER_FAILURE_RATE',
+        DEFAULT_PRICE_GUARDRAILS.breakerFailureRate,
+      ),
+      breakerRejectionRate: numberOrDefault(
+        'COUPANG_PRICE_BREAKER_REJECTION_RATE',
+        DEFAULT_PRICE_GUARDRAILS.breakerRejectionRate,
+      ),
+      breakerMinSamples: numberOrDefault(
+        'COUPANG_PRICE_BREAKER_MIN_SAMPLES',
+        DEFAULT_PRICE_GUARDRAILS.breakerMinSamples,
+      )!,
+    };
   }
 
   /**
@@ -329,15 +962,21 @@ export class CoupangService {
   }
 
   /**
-   * 쿠팡 비교 데이터를 초기화하는 메서드
+   * 보관 기간이 지난 쿠팡 비교 데이터 스냅샷을 정리하는 메서드
    *
    * @returns {Promise<void>} 작업 완료 후 아무 값도 반환하지 않는 Promise
    *
    * @description
-   * 데이터베이스에 저장된 쿠팡 상품 비교 정보를 모두 삭제
+   * 비교 데이터는 크롤링 실행별 스냅샷으로 보관되므로 전체를 삭제하지 않고,
+   * COUPANG_COMPARISON_RETENTION_DAYS(기본 30일)보다 오래된 스냅샷만 삭제합니다.
+   * 가장 최근에 완료된 실행의 스냅샷은 보관 기간과 관계없이 유지됩니다.
    */
   async clearCoupangComparison(): Promise<void> {
-    await this.coupangRepository.clearCoupangComparison();
+    const retentionDays = Number(
+      this.configService.get<string>('COUPANG_COMPARISON_RETENTION_DAYS') ?? 30,
+    );
+
+    await this.coupangRepository.pruneComparisonSnapshots(retentionDays);
   }
 
   /**
@@ -362,7 +1001,7 @@ export class CoupangService {
    * @returns {Promise<number>} 비교 데이터 개수를 반환하는 Promise
    *
    * @description
-   * 데이터베이스에 저장된 쿠팡 상품 비교 정보의 총 개수를 조회하여 반환
+   * 가장 최근에 완료된 크롤링 실행의 쿠팡 상품 비교 정보 개수를 조회하여 반환
    */
   async getComparisonCount(): Promise<number> {
     return this.coupangRepository.getComparisonCount();
@@ -373,42 +1012,230 @@ export class CoupangService {
    * @param jobId 크론 작업 ID
    * @param jobType 작업 유형
    * @param invoices 업로드할 송장 목록
+   *
+   * @returns {Promise<InvoiceItemUploadResult[]>} 아이템(vendorItemId) 단위 업로드 결과
+   *
+   * @description
+   * 1. 택배사 코드 또는 택배사명으로 쿠팡 택배사 코드를 확인하고, 등록되지 않은 택배사는 전송 없이 실패 처리
+   * 2. 택배사별 규칙(자릿수, 숫자 여부, 검증 자리)으로 운송장 번호를 확인하고, 맞지 않으면 검증 오류 코드로 실패 처리
+   * 3. 송장마다 포함된 모든 아이템에 대해 송장 적용 정보를 하나씩 생성
+   * 4. 분리배송(splitShipping), 기분리배송(preSplitShipped), 출고예정일은 아이템 값 또는 송장 값을 사용
+   * 5. 전송 전에 발주서, 아이템, 운송장 번호 조합을 업로드 기록에 PENDING으로 선점
+   *    - 이미 업로드된 줄은 전송하지 않고 already_uploaded로 기록
+   *    - 다른 요청이 선점한 줄은 전송하지 않고 실패(UPLOAD_IN_PROGRESS)로 기록
+   *    - COUPANG_INVOICE_PENDING_TIMEOUT_MINUTES(기본 10분)보다 오래 PENDING인 줄은 중단된 요청으로 보고,
+   *      발주서의 운송장 번호가 같으면 SUCCEEDED로 기록하고 아니면 다시 선점하여 전송
+   *      (발주서 조회에 실패하면 다시 선점하지 않음)
+   * 6. 한 발주서의 선점한 아이템을 한 번에 업로드하고, 결과에 따라 업로드 기록을 SUCCEEDED/FAILED로 변경
+   * 7. 요청 간 0.5초 간격으로 요청 제한
    */
   async uploadInvoices(
     jobId: string,
     jobType: string,
-    invoices: CoupangInvoice[],
-  ): Promise<InvoiceUploadResult[]> {
-    const results: InvoiceUploadResult[] = [];
+    invoices: CoupangInvoiceUpload[],
+  ): Promise<InvoiceItemUploadResult[]> {
+    const results: InvoiceItemUploadResult[] = [];
 
     for (const invoice of invoices) {
-      const result: InvoiceUploadResult = {
+      const baseResult = {
         orderId: invoice.orderId,
-        status: 'failed', // 기본값은 실패로 설정
+        shipmentBoxId: invoice.shipmentBoxId,
         courierName: invoice.courier.courier,
         trackingNumber: invoice.courier.trackNumber,
         name: invoice.courier.nameText,
         safeNumber: invoice.courier.phoneText,
-        error: '',
       };
 
+      // 택배사 코드가 없거나 등록되지 않은 코드면 택배사명으로 조회
+      const courier =
+        findCourier(invoice.deliveryCompanyCode) ?? findCourier(invoice.courier.courier);
+
+      const vendorItemIds = (invoice.items ?? []).map((item) => item.vendorItemId);
+      const failAll = (resultCode: string, error: string) => {
+        for (const vendorItemId of vendorItemIds.length ? vendorItemIds : [null]) {
+          results.push({
+            ...baseResult,
+            vendorItemId: vendorItemId,
+            status: 'failed',
+            resultCode: resultCode,
+            error: error,
+          });
+        }
+      };
+
+      if (!courier) {
+        const error = new UnknownCourierError(
+          invoice.courier.courier || invoice.deliveryCompanyCode,
+        );
+        failAll(error.code, error.message);
+        continue;
+      }
+
+      // 택배사 규칙에 맞지 않는 운송장 번호는 전송하지 않음
+      const validation = validateTrackingNumber(courier.code, invoice.courier.trackNumber);
+      if (validation.valid === false) {
+        failAll(validation.code, validation.message);
+        continue;
+      }
+
+      const dtos: CoupangInvoiceApplyDto[] = (invoice.items ?? []).map((item) => {
+        const splitShipping = item.splitShipping ?? invoice.splitShipping ?? false;
+
+        return {
+          shipmentBoxId: invoice.shipmentBoxId,
+          orderId: invoice.orderId,
+          deliveryCompanyCode: courier.code,
+          invoiceNumber: validation.trackingNumber,
+          vendorItemId: item.vendorItemId,
+          splitShipping: splitShipping,
+          preSplitShipped: item.preSplitShipped ?? invoice.preSplitShipped ?? false,
+          estimatedShippingDate: splitShipping
+            ? (item.estimatedShippingDate ?? invoice.estimatedShippingDate ?? '')
+            : '',
+        };
+      });
+
+      if (dtos.length === 0) {
+        results.push({
+          ...baseResult,
+          vendorItemId: null,
+          status: 'failed',
+          error: '송장에 업로드할 아이템이 없습니다',
+        });
+        continue;
+      }
+
+      // 중단된 요청이 남긴 PENDING 줄은 쿠팡에 이미 반영됐는지 확인한 뒤 다시 선점
+      const staleBefore = await this.resolveStalePendingUploads(jobId, jobType, invoice, dtos);
+
+      // 업로드 전에 줄을 선점하여 동시에 들어온 재요청이 같은 송장을 중복 전송하지 않도록 함
+      const claimed = await this.coupangInvoiceRepository.claimUploads(
+        dtos.map((dto) => ({
+          shipmentBoxId: dto.shipmentBoxId,
+          vendorItemId: dto.vendorItemId,
+          invoiceNumber: dto.invoiceNumber,
+          orderId: invoice.orderId,
+          deliveryCompanyCode: courier.code,
+          source: 'upload',
+          cronId: jobId,
+        })),
+        staleBefore,
+      );
+      const claimedKeys = new Set(
+        claimed.map((key) =>
+          this.invoiceLedgerKey(key.shipmentBoxId, key.vendorItemId, key.invoiceNumber),
+        ),
+      );
+
+      const pendingDtos = dtos.filter((dto) =>
+        claimedKeys.has(
+          this.invoiceLedgerKey(dto.shipmentBoxId, dto.vendorItemId, dto.invoiceNumber),
+        ),
+      );
+      const skippedDtos = dtos.filter((dto) => !pendingDtos.includes(dto));
+
+      if (skippedDtos.length > 0) {
+        // 선점하지 못한 줄은 이미 업로드됐거나 다른 요청에서 처리 중인 줄
+        const existing = await this.coupangInvoiceRepository.findUploadsByShipmentBoxIds([
+          invoice.shipmentBoxId,
+        ]);
+        const statusByKey = new Map(
+          existing.map((upload) => [
+            this.invoiceLedgerKey(upload.shipmentBoxId, upload.vendorItemId, upload.invoiceNumber),
+            upload.status,
+          ]),
+        );
+
+        for (const dto of skippedDtos) {
+          const status = statusByKey.get(
+            this.invoiceLedgerKey(dto.shipmentBoxId, dto.vendorItemId, dto.invoiceNumber),
+          );
+
+          if (status === 'SUCCEEDED') {
+            results.push({
+              ...baseResult,
+              vendorItemId: dto.vendorItemId,
+              status: 'already_uploaded',
+              error: '',
+            });
+            continue;
+          }
+
+          results.push({
+            ...baseResult,
+            vendorItemId: dto.vendorItemId,
+            status: 'failed',
+            resultCode: 'UPLOAD_IN_PROGRESS',
+            error: '다른 요청에서 업로드 중이거나 결과를 확인하지 못한 송장입니다',
+          });
+        }
+      }
+
+      if (pendingDtos.length === 0) continue;
+
+      let outcomes: InvoiceItemOutcome[] = [];
+      let requestError: any = null;
+
       try {
         // 송장 업로드 시도
-        await this.coupangApiService.uploadInvoice(jobId, jobType, invoice);
-
-        // 성공 시 상태 업데이트
-        result.status = 'success';
+        outcomes = await this.coupangApiService.uploadInvoice(jobId, jobType, pendingDtos);
       } catch (error: any) {
-        // 오류 메시지 저장
-        result.error = error.message || '알 수 없는 오류';
+        // 요청 자체가 실패한 경우 모든 아이템을 실패로 기록
         console.error(
           `${jobType}${jobId}: 주문 ${invoice.orderId} 송장 업로드 실패\n`,
           error.response?.data || error.message,
         );
+        requestError = error;
+      }
+
+      if (requestError) {
+        for (const dto of pendingDtos) {
+          results.push({
+            ...baseResult,
+            vendorItemId: dto.vendorItemId,
+            status: 'failed',
+            error: requestError.message || '알 수 없는 오류',
+          });
+        }
+      } else {
+        for (const outcome of outcomes) {
+          results.push({
+            ...baseResult,
+            vendorItemId: outcome.vendorItemId,
+            status: outcome.succeed ? 'success' : 'failed',
+            resultCode: outcome.resultCode,
+            error: outcome.succeed ? '' : outcome.resultMessage,
+          });
+        }
       }
 
-      // 결과 배열에 추가
-      results.push(result);
+      // 선점한 줄을 결과에 따라 완료/실패로 변경 (실패한 줄은 다음 요청에서 다시 선점 가능)
+      const succeededItemIds = new Set(
+        outcomes
+          .filter((outcome) => outcome.succeed)
+          .map((outcome) => String(outcome.vendorItemId)),
+      );
+      const toKey = (dto: CoupangInvoiceApplyDto) => ({
+        shipmentBoxId: dto.shipmentBoxId,
+        vendorItemId: dto.vendorItemId,
+        invoiceNumber: dto.invoiceNumber,
+      });
+
+      try {
+        await this.coupangInvoiceRepository.markUploads(
+          pendingDtos.filter((dto) => succeededItemIds.has(String(dto.vendorItemId))).map(toKey),
+          'SUCCEEDED',
+        );
+        await this.coupangInvoiceRepository.markUploads(
+          pendingDtos.filter((dto) => !succeededItemIds.has(String(dto.vendorItemId))).map(toKey),
+          'FAILED',
+        );
+      } catch (error: any) {
+        console.error(
+          `${JobType.ERROR}${jobType}${jobId}: 주문 ${invoice.orderId} 송장 업로드 기록 갱신 실패\n`,
+          error.message,
+        );
+      }
 
       // 요청 간 간격 두기
       await new Promise((resolve) => setTimeout(resolve, 500));
@@ -416,4 +1243,246 @@ export class CoupangService {
 
     return results;
   }
+
+  /**
+   * 잘못 업로드된 송장을 일괄 정정합니다.
+   * @param jobId 크론 작업 ID
+   * @param jobType 작업 유형
+   * @param corrections 정정할 송장 목록 (shipmentBoxId, vendorItemId, 기존 송장, 새 송장)
+   *
+   * @returns {Promise<InvoiceCorrectionResult[]>} 정정 요청 한 줄마다의 처리 결과
+   *
+   * @description
+   * 1. 기존 송장과 새 송장이 같은 줄은 전송하지 않고 skipped로 기록
+   * 2. orderId가 없는 줄은 로컬 주문 테이블에서 shipmentBoxId로 조회하고, 찾지 못하면 실패로 기록
+   * 3. 새 송장의 택배사(코드 또는 택배사명)가 등록되지 않았거나 운송장 번호가 규칙에 맞지 않으면 전송 없이 실패로 기록
+   * 4. 같은 발주서의 줄을 묶어 송장 업데이트 API로 한 번에 전송
+   * 5. 요청 간 0.5초 간격으로 요청 제한
+   */
+  async updateInvoices(
+    jobId: string,
+    jobType: string,
+    corrections: InvoiceCorrection[],
+  ): Promise<InvoiceCorrectionResult[]> {
+    console.log(`${jobType}${jobId}: 송장 정정 ${corrections.length}건 시작`);
+    const results: InvoiceCorrectionResult[] = [];
+
+    const localOrders = await this.coupangOrderRepository.findOrdersByShipmentBoxIds(
+      corrections.filter((line) => !line.orderId).map((line) => line.shipmentBoxId),
+    );
+    const orderIdByBoxId = new Map(
+      localOrders.map((order) => [String(order.shipmentBoxId), order.orderId]),
+    );
+
+    const linesByBoxId = new Map<string, (InvoiceCorrection & { orderId: number })[]>();
+
+    for (const line of corrections) {
+      const orderId = line.orderId ?? orderIdByBoxId.get(String(line.shipmentBoxId)) ?? null;
+      const result: InvoiceCorrectionResult = {
+        shipmentBoxId: line.shipmentBoxId,
+        vendorItemId: line.vendorItemId,
+        orderId: orderId,
+        oldInvoice: line.oldInvoice,
+        newInvoice: line.newInvoice,
+        status: 'failed',
+        error: '',
+      };
+
+      if (
+        line.oldInvoice?.deliveryCompanyCode === line.newInvoice.deliveryCompanyCode &&
+        line.oldInvoice?.invoiceNumber === line.newInvoice.invoiceNumber
+      ) {
+        results.push({ ...result, status: 'skipped', error: '기존 송장과 동일합니다' });
+        continue;
+      }
+
+      if (!orderId) {
+        results.push({ ...result, error: '주문번호를 찾을 수 없습니다' });
+        continue;
+      }
+
+      const courier = findCourier(line.newInvoice.deliveryCompanyCode);
+      if (!courier) {
+        const error = new UnknownCourierError(line.newInvoice.deliveryCompanyCode);
+        results.push({ ...result, resultCode: error.code, error: error.message });
+        continue;
+      }
+
+      const validation = validateTrackingNumber(courier.code, line.newInvoice.invoiceNumber);
+      if (validation.valid === false) {
+        results.push({ ...result, resultCode: validation.code, error: validation.message });
+        continue;
+      }
+
+      const key = String(line.shipmentBoxId);
+      linesByBoxId.set(key, [
+        ...(linesByBoxId.get(key) ?? []),
+        {
+          ...line,
+          orderId,
+          newInvoice: {
+            deliveryCompanyCode: courier.code,
+            invoiceNumber: validation.trackingNumber,
+          },
+        },
+      ]);
+    }
+
+    for (const lines of linesByBoxId.values()) {
+      const dtos: CoupangInvoiceApplyDto[] = lines.map((line) => ({
+        shipmentBoxId: line.shipmentBoxId,
+        orderId: line.orderId,
+        deliveryCompanyCode: line.newInvoice.deliveryCompanyCode,
+        invoiceNumber: line.newInvoice.invoiceNumber,
+        vendorItemId: line.vendorItemId,
+        splitShipping: false,
+        preSplitShipped: false,
+        estimatedShippingDate: '',
+      }));
+
+      const baseResults = lines.map((line) => ({
+        shipmentBoxId: line.shipmentBoxId,
+        vendorItemId: line.vendorItemId,
+        orderId: line.orderId,
+        oldInvoice: line.oldInvoice,
+        newInvoice: line.newInvoice,
+      }));
+
+      let outcomes: InvoiceItemOutcome[] = [];
+
+      try {
+        outcomes = await this.coupangApiService.correctInvoice(jobId, jobType, dtos);
+      } catch (error: any) {
+        for (const baseResult of baseResults) {
+          results.push({
+            ...baseResult,
+            status: 'failed',
+            error: error.message || '알 수 없는 오류',
+          });
+        }
+      }
+
+      outcomes.forEach((outcome, i) =>
+        results.push({
+          ...baseResults[i],
+          status: outcome.succeed ? 'success' : 'failed',
+          resultCode: outcome.resultCode,
+          error: outcome.succeed ? '' : outcome.resultMessage,
+        }),
+      );
+
+      try {
+        // 정정된 운송장 번호로 업로드 요청이 다시 들어와도 전송하지 않도록 기록
+        await this.coupangInvoiceRepository.saveUploads(
+          dtos
+            .filter((_, i) => outcomes[i]?.succeed)
+            .map((dto) => ({
+              shipmentBoxId: dto.shipmentBoxId,
+              vendorItemId: dto.vendorItemId,
+              invoiceNumber: dto.invoiceNumber,
+              orderId: dto.orderId,
+              deliveryCompanyCode: dto.deliveryCompanyCode,
+              source: 'correction',
+              cronId: jobId,
+            })),
+        );
+      } catch (error: any) {
+        console.error(
+          `${JobType.ERROR}${jobType}${jobId}: 송장 정정 기록 저장 실패\n`,
+          error.message,
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    console.log(
+      `${jobType}${jobId}: 송장 정정 완료 - 성공 ${results.filter((r) => r.status === 'success').length}/${corrections.length}`,
+    );
+
+    return results;
+  }
+
+  /**
+   * 주문의 송장 업로드 기록을 조회합니다. (감사용)
+   * @param orderId 주문번호
+   * @returns 업로드 시각 순으로 정렬된 업로드 기록
+   */
+  async getInvoiceUploads(orderId: number) {
+    return await this.coupangInvoiceRepository.findUploadsByOrderId(orderId);
+  }
+
+  /**
+   * 크롤링 실행에서 파싱하지 못해 제외한 행 조회
+   *
+   * @param crawlRunId 크롤링 실행 ID (크롤링 작업의 jobId)
+   * @returns 크롤러, 페이지, 행 순으로 정렬된 제외 행 (사유와 원본 일부 포함)
+   */
+  async getCrawlRejectedRows(crawlRunId: string) {
+    return await this.coupangRepository.getCrawlRejectedRows(crawlRunId);
+  }
+
+  /**
+   * 오래 PENDING으로 남은 업로드 기록을 발주서의 운송장 번호와 비교하여 정리
+   *
+   * @returns {Promise<Date>} - 다시 선점할 PENDING 기록의 기준 시각 (발주서 조회에 실패하면 다시 선점하지 않도록 과거 시각)
+   *
+   * @description
+   * 발주서의 운송장 번호가 업로드하려는 번호와 같으면 이전 요청의 업로드가 반영된 것이므로 SUCCEEDED로 기록합니다.
+   * 나머지 오래된 PENDING 기록은 반환한 기준 시각으로 claimUploads에서 다시 선점됩니다.
+   */
+  private async resolveStalePendingUploads(
+    jobId: string,
+    jobType: string,
+    invoice: CoupangInvoiceUpload,
+    dtos: CoupangInvoiceApplyDto[],
+  ): Promise<Date> {
+    const timeoutMinutes = Number(
+      this.configService.get<string>('COUPANG_INVOICE_PENDING_TIMEOUT_MINUTES') ?? 10,
+    );
+    const staleBefore = new Date(Date.now() - timeoutMinutes * 60 * 1000);
+
+    const dtoKeys = new Set(
+      dtos.map((dto) =>
+        this.invoiceLedgerKey(dto.shipmentBoxId, dto.vendorItemId, dto.invoiceNumber),
+      ),
+    );
+    const stale = (
+      await this.coupangInvoiceRepository.findUploadsByShipmentBoxIds([invoice.shipmentBoxId])
+    ).filter(
+      (upload) =>
+        upload.status === 'PENDING' &&
+        upload.updatedAt < staleBefore &&
+        dtoKeys.has(
+          this.invoiceLedgerKey(upload.shipmentBoxId, upload.vendorItemId, upload.invoiceNumber),
+        ),
+    );
+    if (stale.length === 0) return staleBefore;
+
+    try {
+      const orderSheet = (
+        await this.coupangApiService.getOrderSheetsByOrderId(invoice.orderId)
+      ).find((sheet) => String(sheet.shipmentBoxId) === String(invoice.shipmentBoxId));
+
+      const applied = stale.filter(
+        (upload) =>
+          String(orderSheet?.invoiceNumber ?? '').replace(/[\s-]/g, '') === upload.invoiceNumber,
+      );
+      if (applied.length > 0) {
+        await this.coupangInvoiceRepository.markUploads(applied, 'SUCCEEDED');
+      }
+
+      return staleBefore;
+    } catch (error: any) {
+      console.error(
+        `${JobType.ERROR}${jobType}${jobId}: 주문 ${invoice.orderId} 발주서 조회 실패, 처리 중인 송장을 다시 전송하지 않습니다\n`,
+        error.response?.data || error.message,
+      );
+      return new Date(0);
+    }
+  }
+
+  private invoiceLedgerKey(shipmentBoxId: number, vendorItemId: number, invoiceNumber: string) {
+    return `${shipmentBoxId}:${vendorItemId}:${invoiceNumber}`;
+  }
 }
@@ -0,0 +1,125 @@
+import {
+  buildCanonicalQuery,
+  createCoupangSignature,
+  CoupangSignatureParams,
+  CoupangSignatureService,
+  formatSignedDate,
+} from './coupang.signature.service';
+
+/**
+ * 쿠팡 HMAC 서명 테스트 벡터
+ *
+ * 기대값은 서비스 코드와 독립적으로 아래 명령으로 계산한 값입니다.
+ *   echo -n "<datetime><method><path><query>" | openssl dgst -sha256 -hmac "<secretKey>"
+ */
+const vectors: {
+  name: string;
+  method: string;
+  path: string;
+  params: CoupangSignatureParams;
+  datetime: string;
+  expectedQuery: string;
+  expectedSignature: string;
+}[] = [
+  {
+    // 쿠팡 개발자 문서의 HMAC 서명 예제 요청 (반품 요청 목록 조회)
+    name: '개발자 문서 예제 - 반품 요청 목록 조회',
+    method: 'GET',
+    path: '/v2/providers/openapi/apis/api/v4/vendors/A00012345/returnRequests',
+    params: [
+      ['createdAtFrom', '2018-08-08'],
+      ['createdAtTo', '2018-08-09'],
+      ['status', 'UC'],
+    ],
+    datetime: '181009T052430Z',
+    expectedQuery: 'createdAtFrom=2018-08-08&createdAtTo=2018-08-09&status=UC',
+    expectedSignature: '5f2593913fa3b830a925731dfa129a9f207efaaae1adea0f986cc1ddcf73aab4',
+  },
+  {
+    name: '상품 목록 페이징 (빈 nextToken 포함)',
+    method: 'GET',
+    path: '/v2/providers/seller_api/apis/api/v1/marketplace/seller-products',
+    params: { vendorId: 'A00012345', nextToken: '', maxPerPage: 100, status: 'APPROVED' },
+    datetime: '240315T093015Z',
+    expectedQuery: 'vendorId=A00012345&nextToken=&maxPerPage=100&status=APPROVED',
+    expectedSignature: '94a85544a3a942bec2f7b570631230b0b8187bcd3eff42f05157d6dd969a328e',
+  },
+  {
+    name: '발주서 기간 조회 (undefined 값 제외)',
+    method: 'GET',
+    path: '/v2/providers/openapi/apis/api/v4/vendors/A00012345/ordersheets',
+    params: [
+      ['createdAtFrom', '2024-03-01'],
+      ['createdAtTo', '2024-03-15'],
+      ['status', 'ACCEPT'],
+      ['maxPerPage', 50],
+      ['nextToken', undefined],
+    ],
+    datetime: '240315T093015Z',
+    expectedQuery: 'createdAtFrom=2024-03-01&createdAtTo=2024-03-15&status=ACCEPT&maxPerPage=50',
+    expectedSignature: 'd1f1e7a29ed250324339eb4c26d30319e9cc4e2205758d9126217364de50da37',
+  },
+  {
+    name: '쿼리 없는 PUT 요청',
+    method: 'PUT',
+    path: '/v2/providers/seller_api/apis/api/v1/marketplace/vendor-items/3000000001/prices/15900',
+    params: {},
+    datetime: '240315T093015Z',
+    expectedQuery: '',
+    expectedSignature: '89e4d511e2ace7022ae2ccdfae9e07e2babe6eca74059a0ceaa4150e15a48718',
+  },
+  {
+    name: '인코딩이 필요한 값 (한글, 공백, &)',
+    method: 'GET',
+    path: '/v2/providers/seller_api/apis/api/v1/marketplace/seller-products',
+    params: { vendorId: 'A00012345', sellerProductName: '보조배터리 A&B' },
+    datetime: '240315T093015Z',
+    expectedQuery:
+      'vendorId=A00012345&sellerProductName=%EB%B3%B4%EC%A1%B0%EB%B0%B0%ED%84%B0%EB%A6%AC%20A%26B',
+    expectedSignature: '5ba9920316b1f73079022c6603ceb07d1d9822408879b1750a8278d73c4d90cc',
+  },
+];
+
+const keys = { secretKey: 'a1b2c3d4e5f6', accessKey: 'test-access-key' };
+
+describe('coupang signature', () => {
+  it.each(vectors)('$name', (vector) => {
+    const query = buildCanonicalQuery(vector.params);
+    const authorization = createCoupangSignature({
+      ...keys,
+      method: vector.method,
+      path: vector.path,
+      query: query,
+      datetime: vector.datetime,
+    });
+
+    expect(query).toBe(vector.expectedQuery);
+    expect(authorization).toBe(
+      `CEA algorithm=HmacSHA256, access-key=${keys.accessKey}, signed-date=${vector.datetime}, signature=${vector.expectedSignature}`,
+    );
+  });
+
+  it('formats the signed date in UTC', () => {
+    expect(formatSignedDate(new Date('2024-03-15T09:30:15.123Z'))).toBe('240315T093015Z');
+  });
+
+  it('signs with configured keys and returns the signed query', () => {
+    const configService = {
+      get: (key: string) =>
+        ({ COUPANG_SECRET_KEY: keys.secretKey, COUPANG_ACCESS_KEY: keys.accessKey })[key],
+    };
+    const service = new CoupangSignatureService(configService as any);
+    const vector = vectors[1];
+
+    const signature = service.sign(
+      vector.method,
+      vector.path,
+      vector.params,
+      new Date('2024-03-15T09:30:15Z'),
+    );
+
+    expect(signature.datetime).toBe(vector.datetime);
+    expect(signature.query).toBe(vector.expectedQuery);
+    expect(signature.authorization).toContain(`signature=${vector.expectedSignature}`);
+  });
+});
@@ -3,57 +3,111 @@ import crypto from 'crypto';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 
+/**
+ * 서명할 쿼리 파라미터
+ *
+ * @description
+ * 객체는 키 삽입 순서, 튜플 배열은 배열 순서대로 쿼리스트링이 구성됩니다.
+ * undefined, null 값은 쿼리에서 제외되며 빈 문자열은 `key=` 형태로 유지됩니다.
+ */
+export type CoupangSignatureParams =
+  | Record<string, string | number | boolean | undefined | null>
+  | [string, string | number | boolean | undefined | null][];
+
+export interface CoupangSignature {
+  authorization: string;
+  datetime: string;
+  /** 서명에 사용된 쿼리스트링. 요청 URL에 이 값을 그대로 사용해야 합니다 */
+  query: string;
+}
+
+/**
+ * 쿼리 파라미터를 요청에 실제로 전송될 형태의 쿼리스트링으로 변환
+ *
+ * @param params - 순서가 보장된 쿼리 파라미터
+ * @returns {string} - `?`를 포함하지 않는 쿼리스트링
+ */
+export const buildCanonicalQuery = (params: CoupangSignatureParams = []): string => {
+  const entries = Array.isArray(params) ? params : Object.entries(params);
+
+  return entries
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+};
+
+/**
+ * 쿠팡 서명에 사용하는 signed-date 형식(yyMMdd'T'HHmmss'Z', UTC)으로 변환
+ *
+ * @param date - 변환할 시각
+ * @returns {string} - 예: 240315T093015Z
+ */
+export const formatSignedDate = (date: Date): string =>
+  date.toISOString().slice(2, 19).replace(/:/g, '').replace(/-/g, '') + 'Z';
+
+/**
+ * 쿠팡 오픈 API HMAC 서명 생성
+ *
+ * @description
+ * 서명 메시지는 signed-date + method + path + query 입니다.
+ * 외부 의존성 없이 동작하므로 단위 테스트(coupang.signature.service.spec.ts)에서 그대로 검증합니다.
+ */
+export const createCoupangSignature = (input: {
+  secretKey: string;
+  accessKey: string;
+  method: string;
+  path: string;
+  query: string;
+  datetime: string;
+}): string => {
+  const message = input.datetime + input.method + input.path + input.query;
+  const signature = crypto.createHmac('sha256', input.secretKey).update(message).digest('hex');
+
+  return `CEA algorithm=HmacSHA256, access-key=${input.accessKey}, signed-date=${input.datetime}, signature=${signature}`;
+};
+
 @Injectable()
 export class CoupangSignatureService {
   private readonly secretKey: string;
   private readonly accessKey: string;
-  private readonly vendorId: string;
 
   constructor(private readonly configService: ConfigService) {
     this.secretKey = this.configService.get<string>('COUPANG_SECRET_KEY')!;
     this.accessKey = this.configService.get<string>('COUPANG_ACCESS_KEY')!;
-    this.vendorId = this.configService.get<string>('COUPANG_VENDOR_ID')!;
   }
 
-  async createHmacSignature(
+  /**
+   * 요청에 필요한 Authorization 헤더와 쿼리스트링 생성
+   *
+   * @param method - HTTP 메서드
+   * @param path - 쿼리를 제외한 API 경로
+   * @param params - 순서가 보장된 쿼리 파라미터
+   * @param now - 서명 시각 (기본값: 현재 시각)
+   *
+   * @returns {CoupangSignature} - Authorization 헤더, X-Coupang-Date 값, 서명된 쿼리스트링
+   *
+   * @description
+   * 서명에 사용된 쿼리스트링을 함께 반환하므로, 호출자는 이 값을 URL에 그대로 붙여
+   * 서명 대상과 실제 전송되는 쿼리가 어긋나지 않도록 해야 합니다.
+   */
+  sign(
     method: string,
     path: string,
-    nextToken: string = '',
-    useQuery: boolean = true,
-  ) {
-    const datetime =
-      new Date().toISOString().substr(2, 17).replace(/:/gi, '').replace(/-/gi, '') + 'Z';
-
-    const query = useQuery
-      ? new URLSearchParams({
-          vendorId: this.vendorId,
-          nextToken,
-          maxPerPage: '100',
-          status: 'APPROVED',
-        }).toString()
-      : '';
-
-    const message = datetime + method + path + query;
-
-    const signature = crypto.createHmac('sha256', this.secretKey).update(message).digest('hex');
-
-    const authorization = `CEA algorithm=HmacSHA256, access-key=${this.accessKey}, signed-date=${datetime}, signature=${signature}`;
-
-    return { authorization, datetime };
-  }
-
-  async createParamHmacSignature(method: string, path: string, params: Record<string, any>) {
-    const datetime =
-      new Date().toISOString().slice(2, 19).replace(/:/gi, '').replace(/-/gi, '') + 'Z';
-
-    const query = new URLSearchParams(params).toString(); // params로 queryString 생성
-
-    const message = datetime + method + path + query;
-
-    const signature = crypto.createHmac('sha256', this.secretKey).update(message).digest('hex');
+    params: CoupangSignatureParams = [],
+    now: Date = new Date(),
+  ): CoupangSignature {
+    const datetime = formatSignedDate(now);
+    const query = buildCanonicalQuery(params);
 
-    const authorization = `CEA algorithm=HmacSHA256, access-key=${this.accessKey}, signed-date=${datetime}, signature=${signature}`;
+    const authorization = createCoupangSignature({
+      secretKey: this.secretKey,
+      accessKey: this.accessKey,
+      method,
+      path,
+      query,
+      datetime,
+    });
 
-    return { authorization, datetime };
+    return { authorization, datetime, query };
   }
 }
@@ -0,0 +1,123 @@
+import {
+  TrackingValidationErrorCode,
+  validateTrackingNumber,
+} from './courier/coupang.tracking.validator';
+
+/**
+ * 운송장 번호 검증 벡터
+ *
+ * MOD7 검증 자리는 서비스 코드와 독립적으로 아래 명령으로 계산한 값입니다.
+ *   python3 -c "print(<마지막 자리를 제외한 숫자> % 7)"
+ */
+const validVectors: { name: string; code: string; input: string; expected: string }[] = [
+  // 검증 자리가 있는 택배사
+  {
+    name: 'CJ 12자리 (63012345678 % 7 = 2)',
+    code: 'CJGLS',
+    input: '630123456782',
+    expected: '630123456782',
+  },
+  {
+    name: 'CJ 12자리 하이픈, 공백 포함',
+    code: 'CJGLS',
+    input: ' 6301-2345-6782 ',
+    expected: '630123456782',
+  },
+  {
+    name: 'CJ 10자리 (검증 자리 없음)',
+    code: 'CJGLS',
+    input: '1234567895',
+    expected: '1234567895',
+  },
+  {
+    name: '롯데 12자리 (34567890123 % 7 = 4)',
+    code: 'HYUNDAI',
+    input: '345678901234',
+    expected: '345678901234',
+  },
+  {
+    name: '로젠 11자리 (1234567890 % 7 = 3)',
+    code: 'KGB',
+    input: '12345678903',
+    expected: '12345678903',
+  },
+  // 검증 자리가 없는 택배사
+  { name: '한진 12자리', code: 'HANJIN', input: '512345678909', expected: '512345678909' },
+  { name: '우체국 13자리', code: 'EPOST', input: '6012345678901', expected: '6012345678901' },
+  { name: '경동 9자리', code: 'KDEXP', input: '123456789', expected: '123456789' },
+  {
+    name: '규칙 없는 업체직송 (빈 값만 검사)',
+    code: 'DIRECT',
+    input: 'DRV-0001',
+    expected: 'DRV0001',
+  },
+];
+
+const invalidVectors: {
+  name: string;
+  code: string;
+  input: string;
+  expected: TrackingValidationErrorCode;
+}[] = [
+  { name: '빈 값', code: 'CJGLS', input: ' - ', expected: 'INVALID_TRACKING_EMPTY' },
+  { name: 'null', code: 'HANJIN', input: null, expected: 'INVALID_TRACKING_EMPTY' },
+  {
+    name: 'CJ 문자 포함',
+    code: 'CJGLS',
+    input: 'CJ0123456782',
+    expected: 'INVALID_TRACKING_FORMAT',
+  },
+  { name: 'CJ 11자리', code: 'CJGLS', input: '63012345678', expected: 'INVALID_TRACKING_LENGTH' },
+  {
+    name: 'CJ 12자리 검증 자리 불일치',
+    code: 'CJGLS',
+    input: '630123456785',
+    expected: 'INVALID_TRACKING_CHECK_DIGIT',
+  },
+  {
+    name: '롯데 10자리',
+    code: 'HYUNDAI',
+    input: '3456789012',
+    expected: 'INVALID_TRACKING_LENGTH',
+  },
+  {
+    name: '롯데 검증 자리 불일치',
+    code: 'HYUNDAI',
+    input: '345678901230',
+    expected: 'INVALID_TRACKING_CHECK_DIGIT',
+  },
+  { name: '로젠 12자리', code: 'KGB', input: '123456789030', expected: 'INVALID_TRACKING_LENGTH' },
+  {
+    name: '로젠 검증 자리 불일치',
+    code: 'KGB',
+    input: '12345678906',
+    expected: 'INVALID_TRACKING_CHECK_DIGIT',
+  },
+  {
+    name: '우체국 12자리',
+    code: 'EPOST',
+    input: '601234567890',
+    expected: 'INVALID_TRACKING_LENGTH',
+  },
+  {
+    name: '경동 17자리',
+    code: 'KDEXP',
+    input: '12345678901234567',
+    expected: 'INVALID_TRACKING_LENGTH',
+  },
+];
+
+describe('coupang tracking validator', () => {
+  it.each(validVectors)('accepts $name', (vector) => {
+    expect(validateTrackingNumber(vector.code, vector.input)).toEqual({
+      valid: true,
+      trackingNumber: vector.expected,
+    });
+  });
+
+  it.each(invalidVectors)('rejects $name', (vector) => {
+    expect(validateTrackingNumber(vector.code, vector.input)).toEqual(
+      expect.objectContaining({ valid: false, code: vector.expected }),
+    );
+  });
+});
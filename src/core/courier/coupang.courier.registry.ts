@@ -0,0 +1,128 @@
+/**
+ * 쿠팡 택배사 정보
+ *
+ * code는 쿠팡 오픈 API의 deliveryCompanyCode, name은 윙 화면에 표시되는 택배사명입니다.
+ * aliases에는 공급사 메일에 등장하는 표기, 약칭, 자주 발생하는 오타를 등록합니다.
+ */
+export interface CoupangCourier {
+  code: string;
+  name: string;
+  aliases: string[];
+}
+
+export const COUPANG_COURIERS: CoupangCourier[] = [
+  {
+    code: 'CJGLS',
+    name: 'CJ 대한통운',
+    aliases: [
+      'CJ대한통운',
+      'CJ',
+      'CJ택배',
+      'CJGLS',
+      '대한통운',
+      '씨제이',
+      '씨제이대한통운',
+      'CJ대한통문',
+      'CJ대환통운',
+    ],
+  },
+  {
+    code: 'HYUNDAI',
+    name: '롯데택배',
+    aliases: ['롯데', '롯데택배', '롯데글로벌로지스', '현대택배', '롯데택베', '롯대택배'],
+  },
+  {
+    code: 'HANJIN',
+    name: '한진택배',
+    aliases: ['한진', '한진택배', '한진특송', '한진택베'],
+  },
+  {
+    code: 'EPOST',
+    name: '우체국',
+    aliases: ['우체국', '우체국택배', '우체국소포', '우채국택배', 'EPOST'],
+  },
+  {
+    code: 'KGB',
+    name: '로젠택배',
+    aliases: ['로젠', '로젠택배', 'LOGEN', '로잰택배'],
+  },
+  {
+    code: 'KDEXP',
+    name: '경동택배',
+    aliases: ['경동', '경동택배', '경동화물'],
+  },
+  {
+    code: 'DAESIN',
+    name: '대신택배',
+    aliases: ['대신', '대신택배', '대신화물'],
+  },
+  {
+    code: 'ILYANG',
+    name: '일양로지스',
+    aliases: ['일양', '일양로지스', '일양택배'],
+  },
+  {
+    code: 'CHUNIL',
+    name: '천일택배',
+    aliases: ['천일', '천일택배', '천일특송'],
+  },
+  {
+    code: 'CVSNET',
+    name: '편의점택배',
+    aliases: ['편의점택배', 'GS편의점택배', 'GS포스트박스', 'CVSNET', 'CU편의점택배'],
+  },
+  {
+    code: 'HDEXP',
+    name: '합동택배',
+    aliases: ['합동', '합동택배'],
+  },
+  {
+    code: 'DIRECT',
+    name: '업체직송',
+    aliases: ['업체직송', '직접배송', '직배송'],
+  },
+];
+
+/**
+ * 등록되지 않은 택배사로 송장을 처리하려 할 때 발생하는 오류
+ */
+export class UnknownCourierError extends Error {
+  readonly code = 'UNKNOWN_COURIER';
+
+  constructor(readonly courier: string) {
+    super(`등록되지 않은 택배사입니다: ${courier || '(빈 값)'}`);
+    this.name = 'UnknownCourierError';
+  }
+}
+
+/**
+ * 택배사명을 비교용 키로 정규화 (공백, 법인 표기, 구분 기호 제거 및 대문자 변환)
+ */
+const normalizeCourierName = (name: string): string =>
+  (name ?? '')
+    .toUpperCase()
+    .replace(/\(주\)|㈜|주식회사/g, '')
+    .replace(/[\s\-_.·()]/g, '');
+
+const couriersByKey = new Map<string, CoupangCourier>();
+for (const courier of COUPANG_COURIERS) {
+  for (const key of [courier.code, courier.name, ...courier.aliases]) {
+    couriersByKey.set(normalizeCourierName(key), courier);
+  }
+}
+
+/**
+ * 택배사명 또는 택배사 코드로 쿠팡 택배사 정보를 조회
+ *
+ * @param courierNameOrCode - 공급사 메일의 택배사명, 별칭 또는 쿠팡 택배사 코드
+ * @returns {CoupangCourier | undefined} - 등록되지 않은 택배사면 undefined
+ *
+ * @description
+ * 정규화한 이름으로 먼저 찾고, 없으면 끝의 '택배'를 제거한 이름으로 한 번 더 찾습니다.
+ */
+export const findCourier = (courierNameOrCode: string): CoupangCourier | undefined => {
+  const key = normalizeCourierName(courierNameOrCode);
+  if (!key) return undefined;
+
+  return couriersByKey.get(key) ?? couriersByKey.get(key.replace(/택배$/, ''));
+};
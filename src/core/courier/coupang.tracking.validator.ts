@@ -0,0 +1,112 @@
+/**
+ * 택배사별 운송장 번호 규칙
+ *
+ * lengths는 허용되는 자릿수, checkDigit은 마지막 자리 검증 방식입니다.
+ * 'MOD7'은 마지막 자리를 제외한 숫자를 7로 나눈 나머지가 마지막 자리와 같아야 합니다.
+ */
+export interface TrackingNumberRule {
+  lengths: number[];
+  digitsOnly: boolean;
+  checkDigit?: 'MOD7';
+}
+
+/**
+ * 운송장 번호 검증 오류 코드
+ */
+export type TrackingValidationErrorCode =
+  | 'INVALID_TRACKING_EMPTY'
+  | 'INVALID_TRACKING_FORMAT'
+  | 'INVALID_TRACKING_LENGTH'
+  | 'INVALID_TRACKING_CHECK_DIGIT';
+
+export type TrackingValidationResult =
+  | { valid: true; trackingNumber: string }
+  | { valid: false; code: TrackingValidationErrorCode; message: string };
+
+const range = (from: number, to: number): number[] =>
+  Array.from({ length: to - from + 1 }, (_, index) => from + index);
+
+/**
+ * 쿠팡 택배사 코드별 운송장 번호 규칙
+ *
+ * 규칙이 없는 택배사(업체직송 등)는 빈 값만 검사합니다.
+ */
+export const TRACKING_NUMBER_RULES: Record<string, TrackingNumberRule> = {
+  CJGLS: { lengths: [10, 12], digitsOnly: true, checkDigit: 'MOD7' },
+  HYUNDAI: { lengths: [12], digitsOnly: true, checkDigit: 'MOD7' },
+  HANJIN: { lengths: [10, 12], digitsOnly: true },
+  EPOST: { lengths: [13], digitsOnly: true },
+  KGB: { lengths: [11], digitsOnly: true, checkDigit: 'MOD7' },
+  KDEXP: { lengths: range(9, 16), digitsOnly: true },
+  DAESIN: { lengths: [13], digitsOnly: true },
+  ILYANG: { lengths: [10], digitsOnly: true },
+  CHUNIL: { lengths: [11], digitsOnly: true },
+  CVSNET: { lengths: [10, 12], digitsOnly: true },
+  HDEXP: { lengths: range(9, 16), digitsOnly: true },
+};
+
+/**
+ * 마지막 자리를 제외한 숫자를 7로 나눈 나머지가 마지막 자리와 같은지 확인
+ */
+const isValidMod7 = (trackingNumber: string): boolean => {
+  const body = trackingNumber.slice(0, -1);
+  const checkDigit = Number(trackingNumber.slice(-1));
+
+  return Number(BigInt(body) % 7n) === checkDigit;
+};
+
+/**
+ * 택배사 규칙에 따라 운송장 번호를 검증
+ *
+ * @param deliveryCompanyCode - 쿠팡 택배사 코드
+ * @param trackingNumber - 공급사에서 받은 운송장 번호
+ * @returns {TrackingValidationResult} - 유효하면 공백과 하이픈을 제거한 운송장 번호, 아니면 오류 코드와 메시지
+ *
+ * @description
+ * 1. 공백과 하이픈을 제거한 뒤 빈 값인지 확인
+ * 2. 숫자만 허용하는 택배사는 숫자 이외의 문자가 있는지 확인
+ * 3. 허용 자릿수 확인
+ * 4. 검증 자리가 있는 택배사는 마지막 자리 확인 (10자리 CJ 운송장은 검증 자리가 없어 제외)
+ */
+export const validateTrackingNumber = (
+  deliveryCompanyCode: string,
+  trackingNumber: string,
+): TrackingValidationResult => {
+  const normalized = String(trackingNumber ?? '').replace(/[\s-]/g, '');
+
+  if (!normalized) {
+    return { valid: false, code: 'INVALID_TRACKING_EMPTY', message: '운송장 번호가 비어 있습니다' };
+  }
+
+  const rule = TRACKING_NUMBER_RULES[deliveryCompanyCode];
+  if (!rule) return { valid: true, trackingNumber: normalized };
+
+  if (rule.digitsOnly && !/^\d+$/.test(normalized)) {
+    return {
+      valid: false,
+      code: 'INVALID_TRACKING_FORMAT',
+      message: `운송장 번호는 숫자만 입력할 수 있습니다: ${normalized}`,
+    };
+  }
+
+  if (!rule.lengths.includes(normalized.length)) {
+    return {
+      valid: false,
+      code: 'INVALID_TRACKING_LENGTH',
+      message: `운송장 번호 자릿수가 올바르지 않습니다 (${normalized.length}자리, 허용: ${rule.lengths.join(', ')}자리): ${normalized}`,
+    };
+  }
+
+  const hasCheckDigit =
+    rule.checkDigit === 'MOD7' && !(deliveryCompanyCode === 'CJGLS' && normalized.length === 10);
+
+  if (hasCheckDigit && !isValidMod7(normalized)) {
+    return {
+      valid: false,
+      code: 'INVALID_TRACKING_CHECK_DIGIT',
+      message: `운송장 번호 검증 자리가 일치하지 않습니다: ${normalized}`,
+    };
+  }
+
+  return { valid: true, trackingNumber: normalized };
+};
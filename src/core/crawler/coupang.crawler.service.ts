@@ -1,15 +1,17 @@
-import { CoupangExtractDetail, JobType, OrderStatus, WinnerStatus } from '@daechanjo/models';
+import { JobType, WinnerStatus } from '@daechanjo/models';
 import { PlaywrightService } from '@daechanjo/playwright';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 
 import { CoupangApiService } from '../coupang.api.service';
+import { CoupangComparisonService } from '../coupang.comparison.service';
 import { CoupangService } from '../coupang.service';
 import { CrawlCoupangDetailProductsProvider } from './provider/crawlCoupangDetailProducts.provider';
 import { CrawlCoupangPriceComparisonProvider } from './provider/crawlCoupangPriceComparison.provider';
 import { DeleteConfirmedCoupangProductProvider } from './provider/deleteConfirmedCoupangProduct.provider';
 import { InvoiceUploaderProvider } from './provider/invoiceUploader.provider';
-import { OrderStatusUpdateProvider } from './provider/orderStatusUpdate.provider';
+import { CrawlPageResult, ProductCrawlSummary } from '../types/coupangCrawl.types';
+import { CoupangCheckpointRepository } from '../../infrastructure/repository/coupang.checkpoint.repository';
 import { CoupangRepository } from '../../infrastructure/repository/coupang.repository';
 
 @Injectable()
@@ -17,63 +19,17 @@ export class CoupangCrawlerService {
   constructor(
     private readonly playwrightService: PlaywrightService,
     private readonly coupangRepository: CoupangRepository,
+    private readonly coupangCheckpointRepository: CoupangCheckpointRepository,
     private readonly coupangService: CoupangService,
     private readonly coupangApiService: CoupangApiService,
+    private readonly coupangComparisonService: CoupangComparisonService,
     private readonly configService: ConfigService,
     private readonly invoiceUploaderProvider: InvoiceUploaderProvider,
-    private readonly orderStatusUpdateProvider: OrderStatusUpdateProvider,
     private readonly crawlCoupangDetailProductsProvider: CrawlCoupangDetailProductsProvider,
     private readonly deleteConfirmedCoupangProductProvider: DeleteConfirmedCoupangProductProvider,
     private readonly crawlCoupangPriceComparisonProvider: CrawlCoupangPriceComparisonProvider,
   ) {}
 
-  /**
-   * 쿠팡 윙에서 주문 상태를 업데이트하는 메서드
-   *
-   * @param jobId - 현재 실행 중인 크론 작업의 고유 식별자
-   * @param jobType - 로그 메시지에 포함될 작업 유형 식별자
-   *
-   * @returns {Promise<void>} - 작업 완료 후 반환되는 Promise
-   *
-   * @throws {Error} - Playwright 작업 중 발생하는 모든 오류
-   *
-   * @description
-   * 이 메서드는 다음 단계로 진행됩니다:
-   * 1. 쿠팡 윙 관리자 사이트에 로그인 (playwrightService 사용)
-   * 2. 배송 관리 페이지로 이동
-   * 3. 결제 완료된 상품 체크박스 선택
-   * 4. 주문 확인 버튼 클릭
-   * 5. 배송사 선택 (CJ 대한통운)
-   * 6. 상세 사유 입력
-   * 7. 확인 및 다운로드 버튼 클릭
-   * 8. 작업 완료 후 Playwright 컨텍스트 리소스 해제
-   *
-   * 크롤링 과정에서 오류가 발생하면 에러 로그를 남기고 처리를 계속합니다.
-   * 마지막에 컨텍스트 리소스를 확실히 해제하여 메모리 누수를 방지합니다.
-   */
-  async orderStatusUpdate(jobId: string, jobType: string): Promise<void> {
-    console.log(`${jobType}${jobId}: 주문 상태 업데이트 시작`);
-
-    // 브라우저 컨텍스트 및 페이지 ID 설정
-    const store = this.configService.get<string>('STORE');
-    const contextId = `context-${store}-${jobId}`;
-    const pageId = `page-${store}-${jobId}`;
-
-    try {
-      // 쿠팡 윙 로그인 및 페이지 객체 가져오기
-      const coupangPage = await this.playwrightService.loginToCoupangSite(contextId, pageId);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      // 주문 상태 업데이트 프로바이더에 처리 위임
-      await this.orderStatusUpdateProvider.updateOrderStatus(coupangPage, jobId, jobType);
-
-      console.log(`${jobType}${jobId}: 주문 상태 업데이트 완료`);
-    } catch (error) {
-      console.error(`${jobType}${jobId}: 주문 상태 업데이트 중 오류 발생`, error);
-    } finally {
-      await this.playwrightService.releaseContext(contextId);
-    }
-  }
-
   // todo 사용안함
   /**
    * 쿠팡 윙에서 주문의 송장 정보를 업로드하는 메서드
@@ -145,7 +101,7 @@ export class CoupangCrawlerService {
    * @param jobId - 현재 실행 중인 크론 작업의 고유 식별자
    * @param jobType - 로그 메시지에 포함될 작업 유형 식별자
    *
-   * @returns {Promise<void>} - 크롤링 작업 완료 후 반환되는 Promise
+   * @returns {Promise<ProductCrawlSummary>} - 저장한 상품, 제외한 행, 사라진 상품 수
    *
    * @description
    * 이 메서드는 쿠팡 윙의 판매자 인벤토리 페이지에서 모든 상품의 상세 정보를 크롤링합니다.
@@ -156,16 +112,21 @@ export class CoupangCrawlerService {
    * - 판매 가격
    * - 배송비
    *
-   * 수집된 데이터는 데이터베이스에 저장되며, 모든 페이지를 크롤링한 후 리소스를 정리합니다.
-   * 페이지당 50개 상품을 크롤링하도록 설정되어 있으며, 10페이지마다 진행 상황을 로그로 기록합니다.
+   * 수집된 데이터는 sellerProductId 기준으로 갱신되며(마지막 발견 시각, 크롤링 실행 ID 포함),
+   * 모든 페이지를 크롤링하면 이번 실행에서 발견되지 않은 상품을 사라진 상품으로 표시합니다.
+   * 단, 저장한 상품이 없거나 기존 상품보다 COUPANG_MISSING_PRODUCT_MAX_DROP_RATIO(기본 0.2) 넘게 줄었으면 표시하지 않습니다.
+   * 페이지당 50개 상품을 크롤링하며 응답의 전체 페이지 수(totalPages)까지 순회하고, 10페이지마다 진행 상황을 로그로 기록합니다.
+   * 다음 페이지 번호는 Redis 체크포인트에 기록되어 같은 jobId로 재시도하면 중단된 페이지부터 이어서 크롤링합니다.
+   * 변환할 수 없는 상품은 사유와 원본 JSON 일부를 coupang_crawl_rejected_row에 기록하고 나머지 상품은 그대로 저장합니다.
    */
-  async crawlCoupangDetailProducts(jobId: string, jobType: string): Promise<void> {
+  async crawlCoupangDetailProducts(jobId: string, jobType: string): Promise<ProductCrawlSummary> {
     console.log(`${jobType}${jobId}: 쿠팡 상품 상세 크롤링 시작...`);
 
     // 브라우저 컨텍스트 및 페이지 설정
     const store = this.configService.get<string>('STORE');
     const contextId = `context-${store}-${jobId}`;
     const pageId = `page-${store}-${jobId}`;
+    const checkpointKey = `coupang:crawl:product-detail:${jobId}`;
 
     try {
       // 쿠팡 윙 로그인 및 페이지 객체 가져오기
@@ -174,7 +135,12 @@ export class CoupangCrawlerService {
       await new Promise((resolve) => setTimeout(resolve, 1000));
 
       let isLastPage = false;
-      let currentPage = 1;
+      // 재시도된 작업이면 체크포인트의 다음 페이지부터 시작
+      let currentPage = Number(await this.coupangCheckpointRepository.getValue(checkpointKey)) || 1;
+
+      if (currentPage > 1) {
+        console.log(`${jobType}${jobId}: 체크포인트에서 이어서 크롤링 - ${currentPage} 페이지부터`);
+      }
 
       // 모든 페이지 순회
       while (!isLastPage) {
@@ -184,22 +150,74 @@ export class CoupangCrawlerService {
         }
 
         // 현재 페이지 크롤링
-        const scrapedProducts: CoupangExtractDetail[] =
+        const { rows, rejected, totalPages } =
           await this.crawlCoupangDetailProductsProvider.scrapeProductPage(coupangPage, currentPage);
 
-        // 수집된 데이터 저장
-        await this.coupangRepository.saveCoupangProductDetails(scrapedProducts);
+        // 수집된 데이터 저장 (sellerProductId 기준으로 갱신)
+        await this.coupangRepository.saveCoupangProductDetails(rows, jobId);
+
+        // 변환하지 못한 상품은 확인용으로 따로 기록
+        if (rejected.length > 0) {
+          console.warn(
+            `${jobType}${jobId}: ${currentPage} 페이지 - ${rejected.length}개 상품 제외 (${rejected[0].reason})`,
+          );
+          await this.coupangRepository.saveCrawlRejectedRows(rejected, jobId, 'product-detail');
+        }
 
-        // 다음 페이지 확인
-        if (scrapedProducts.length === 0) {
-          console.log(`${jobType}${jobId}: 더 이상 상품이 없습니다. 크롤링 종료`);
+        // 다음 페이지 확인 (응답의 전체 페이지 수 기준, 빈 페이지로 종료를 판단하지 않음)
+        if (currentPage >= totalPages) {
+          console.log(
+            `${jobType}${jobId}: 마지막 페이지(${currentPage}/${totalPages}) 크롤링 종료`,
+          );
           isLastPage = true;
         } else {
           currentPage++;
+          await this.coupangCheckpointRepository.setValue(checkpointKey, currentPage);
+        }
+      }
+
+      // 체크포인트에서 이어서 크롤링한 경우에도 전체 실행 기준으로 집계
+      const savedCount = await this.coupangRepository.countCoupangProductsByRun(jobId);
+      const activeCount = await this.coupangRepository.countActiveCoupangProducts();
+
+      // 전체 페이지를 수집했더라도 저장한 상품이 없거나 기존 상품 대비 너무 적으면
+      // 빈 응답이나 화면 변경으로 보고 사라진 상품을 표시하지 않음
+      const maxDropRatio = Number(
+        this.configService.get<string>('COUPANG_MISSING_PRODUCT_MAX_DROP_RATIO') ?? 0.2,
+      );
+      const dropRatio = activeCount > 0 ? (activeCount - savedCount) / activeCount : 0;
+      const missingSkipped = savedCount === 0 || dropRatio > maxDropRatio;
+
+      let missingCount = 0;
+      if (missingSkipped) {
+        console.warn(
+          `${jobType}${jobId}: 저장한 상품 ${savedCount}개 / 기존 상품 ${activeCount}개 - 사라진 상품 표시를 건너뜁니다`,
+        );
+      } else {
+        missingCount = await this.coupangRepository.markMissingCoupangProducts(jobId);
+        if (missingCount > 0) {
+          console.log(`${jobType}${jobId}: 사라진 상품 ${missingCount}개 표시`);
         }
       }
+
+      await this.coupangCheckpointRepository.clear(checkpointKey);
+
+      const summary: ProductCrawlSummary = {
+        crawlRunId: jobId,
+        savedCount: savedCount,
+        rejectedCount: await this.coupangRepository.countCrawlRejectedRows(jobId, 'product-detail'),
+        missingCount: missingCount,
+        missingSkipped: missingSkipped,
+      };
+      console.log(
+        `${jobType}${jobId}: 상품 상세 크롤링 요약 - 저장 ${summary.savedCount}개, 제외 ${summary.rejectedCount}개, 사라진 상품 ${summary.missingCount}개`,
+      );
+
+      return summary;
     } catch (error) {
+      // 같은 jobId로 재시도하면 체크포인트에서 이어서 크롤링
       console.error(`${jobType}${jobId}: 상품 크롤링 중 오류 발생`, error);
+      throw error;
     } finally {
       await this.playwrightService.releaseContext(contextId);
       console.log(`${jobType}${jobId}: 쿠팡 상품 상세 크롤링 종료`);
@@ -248,9 +266,9 @@ export class CoupangCrawlerService {
       );
 
       // 비준수 상품 코드 추출
-      let conformProductCodes: string[];
+      let extracted: CrawlPageResult<string>;
       try {
-        conformProductCodes =
+        extracted =
           await this.deleteConfirmedCoupangProductProvider.extractNonConformingProductCodes(
             coupangPage,
             jobId,
@@ -266,6 +284,19 @@ export class CoupangCrawlerService {
       // 브라우저 컨텍스트 해제 (API 요청 전에 리소스 확보)
       await this.playwrightService.releaseContext(contextId);
 
+      // 상품 코드를 읽지 못한 행은 확인용으로 따로 기록
+      const conformProductCodes = extracted.rows;
+      if (extracted.rejected.length > 0) {
+        console.warn(
+          `${jobType}${jobId}: 상품 코드를 읽지 못한 컨펌 상품 ${extracted.rejected.length}개`,
+        );
+        await this.coupangRepository.saveCrawlRejectedRows(
+          extracted.rejected,
+          jobId,
+          'non-conforming',
+        );
+      }
+
       // API를 통해 판매자의 상품 목록 조회
       const coupangProducts = await this.coupangApiService.getProductListPaging(
         jobId,
@@ -314,6 +345,12 @@ export class CoupangCrawlerService {
    * 이 메서드는 쿠팡 윙의 가격 비교 페이지에서 판매자의 상품 가격 비교 정보를 크롤링합니다.
    * winnerStatus에 따라 '아이템 위너' 또는 '아이템 루저' 상태의 상품을 크롤링할 수 있으며,
    * 동일한 크롤링 로직을 사용합니다.
+   * 수집한 데이터는 jobId를 크롤링 실행 ID로 하는 스냅샷으로 저장되며,
+   * 모든 페이지를 수집한 실행만 완료(COMPLETED)로 기록되어 최신 스냅샷으로 사용됩니다.
+   * 완료 후 직전 스냅샷과 비교하여 아이템 위너 상실/회복 알림을 전송합니다.
+   *
+   * COUPANG_COMPARISON_CRAWL_CONCURRENCY(기본 3)개의 브라우저 컨텍스트로 페이지를 나누어 수집하고,
+   * 완료된 페이지는 Redis 체크포인트에 기록되어 같은 jobId로 재시도하면 남은 페이지만 수집합니다.
    */
   async crawlCoupangPriceComparison(
     jobId: string,
@@ -322,116 +359,62 @@ export class CoupangCrawlerService {
   ): Promise<void> {
     console.log(`${jobType}${jobId}: 쿠팡 가격비교 크롤링 시작... (상태: ${winnerStatus})`);
 
+    // 동시에 수집할 브라우저 컨텍스트 수
+    const concurrency = Math.max(
+      1,
+      Number(this.configService.get<string>('COUPANG_COMPARISON_CRAWL_CONCURRENCY') ?? 3),
+    );
+
     // 브라우저 컨텍스트 및 페이지 설정
     const store = this.configService.get<string>('STORE');
-    const contextId = `context-${store}-${jobId}-${winnerStatus}`;
-    const pageId = `page-${store}-${jobId}-${winnerStatus}`;
+    const contextIds = Array.from(
+      { length: concurrency },
+      (_, i) => `context-${store}-${jobId}-${winnerStatus}-${i}`,
+    );
+
+    // 모든 페이지를 수집한 실행만 최신 스냅샷으로 사용되도록 실행 상태 기록
+    await this.coupangRepository.startComparisonRun(jobId, winnerStatus);
 
     try {
       // 쿠팡 윙 로그인 및 페이지 객체 가져오기
-      const coupangPage = await this.playwrightService.loginToCoupangSite(contextId, pageId);
+      const coupangPages = [];
+      for (const [i, contextId] of contextIds.entries()) {
+        coupangPages.push(
+          await this.playwrightService.loginToCoupangSite(
+            contextId,
+            `page-${store}-${jobId}-${winnerStatus}-${i}`,
+          ),
+        );
+      }
       await new Promise((resolve) => setTimeout(resolve, 1000));
 
       // 가격 비교 페이지 크롤링
       await this.crawlCoupangPriceComparisonProvider.scrapePriceComparisonPages(
-        coupangPage,
+        coupangPages,
         winnerStatus,
         jobId,
         jobType,
       );
 
+      await this.coupangRepository.finishComparisonRun(jobId, winnerStatus, 'COMPLETED');
       console.log(`${jobType}${jobId}: 쿠팡 가격비교 크롤링 완료 (상태: ${winnerStatus})`);
-    } catch (error) {
-      console.error(`${jobType}${jobId}: 가격비교 크롤링 중 오류 발생`, error);
-    } finally {
-      await this.playwrightService.releaseContext(contextId);
-    }
-  }
-
-  /**
-   * 쿠팡 윙(Wing) 사이트에서 특정 상태의 주문 목록을 크롤링하는 메서드
-   *
-   * @param jobId - 작업 식별자
-   * @param jobType - 작업 유형
-   * @param status - 조회할 주문 상태 (OrderStatus 열거형)
-   * @returns Promise<string | undefined> - 성공 시 주문 데이터가 포함된 JSON 문자열, 실패 시 undefined
-   *
-   * @remarks
-   * Playwright를 사용하여 쿠팡 윙 사이트에 로그인하고 배송 관리 페이지에서 주문 데이터를 가져옵니다.
-   * 현재 날짜부터 2주 전까지의 주문 데이터를 조회합니다.
-   * API 응답을 가로채서 데이터를 추출하는 방식으로 동작합니다.
-   * 작업이 완료되면 Playwright 컨텍스트를 해제합니다.
-   *
-   * @example
-   * // READY 상태의 주문 목록 가져오기
-   * const orderData = await newGetCoupangOrderList('123', 'ORDER_', OrderStatus.READY);
-   * if (orderData) {
-   *   const orders = JSON.parse(orderData);
-   *   // 주문 데이터 처리
-   * }
-   *
-   * @todo
-   * - 에러 처리 로직 구현 필요 (현재 try-catch 내 에러 핸들링 비어 있음)
-   * - 반환 타입을 명확히 정의하고 에러 시 적절한 처리 추가
-   */
-  async newGetCoupangOrderList(jobId: string, jobType: string, status: OrderStatus) {
-    const contextId = `context-${jobType}-${jobId}}`;
-    const pageId = `page-${jobType}-${jobId}}`;
-
-    const today = new Date();
-    const twoWeeksAgo = new Date();
-    twoWeeksAgo.setDate(today.getDate() - 14);
 
-    const formatDate = (date: Date) => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
-
-    try {
-      // 쿠팡 윙 로그인 및 페이지 객체 가져오기
-      const coupangPage = await this.playwrightService.loginToCoupangSite(contextId, pageId);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      // const pageUrl = `https://wing.coupang.com/tenants/sfl-portal/delivery/management`;
-      const pageUrl = `https://wing.coupang.com/tenants/sfl-portal/delivery/management?deliverStatus=${status}&startDate=${formatDate(twoWeeksAgo)}&endDate=${formatDate(today)}`;
-      // API 응답 캐치 설정
-      const responsePromise = coupangPage.waitForResponse((response) => {
-        const url = response.url();
-
-        // 기본 URL 패턴 확인
-        if (!url.includes('delivery/management/dashboard/search') || response.status() !== 200) {
-          return false;
-        }
-
-        try {
-          // URL에서 condition 파라미터 추출
-          const urlObj = new URL(url);
-          const conditionParam = urlObj.searchParams.get('condition');
-
-          if (!conditionParam) return false;
-
-          // condition JSON 파싱
-          const condition = JSON.parse(conditionParam);
-
-          // page가 1이고 nextShipmentBoxId가 null인 첫 번째 요청만 캐치
-          return condition.page === 1 && condition.nextShipmentBoxId === null;
-        } catch (error) {
-          return false;
-        }
-      });
-
-      await coupangPage.goto(pageUrl);
-
-      // 응답 기다리기
-      const productListResponse = await responsePromise;
-
-      // 응답 데이터 가져오기
-      return await productListResponse.text();
+      // 이번에 수집한 상태의 아이템만 직전 스냅샷과 비교
+      await this.coupangComparisonService.detectWinnerChanges(
+        jobId,
+        jobType,
+        jobId,
+        String(winnerStatus).startsWith('WIN'),
+      );
     } catch (error) {
+      // 같은 jobId로 재시도하면 체크포인트에서 이어서 수집
+      console.error(`${jobType}${jobId}: 가격비교 크롤링 중 오류 발생`, error);
+      await this.coupangRepository.finishComparisonRun(jobId, winnerStatus, 'FAILED');
+      throw error;
     } finally {
-      await this.playwrightService.releaseContext(contextId);
+      for (const contextId of contextIds) {
+        await this.playwrightService.releaseContext(contextId);
+      }
     }
   }
 }
@@ -0,0 +1,164 @@
+import * as path from 'path';
+
+import { CrawlCoupangDetailProductsProvider } from './crawlCoupangDetailProducts.provider';
+import { openWingFixturePage, WING_FIXTURES_DIR } from '../../../../test/wing/wing.fixture.harness';
+
+const inventory = (
+  overrides: Record<string, unknown> = {},
+  item: Record<string, unknown> = {},
+) => ({
+  sellerProductId: 1000000021,
+  sellerProductName: 'TST0021 테스트 상품',
+  productStatus: 'APPROVED',
+  vendorInventoryItems: [
+    {
+      vendorItemId: 70000000211,
+      itemName: '1개',
+      salePrice: 10000,
+      deliveryCharge: 0,
+      stockQuantity: 5,
+      salesStatus: 'ON_SALE',
+      itemWinner: true,
+      externalVendorSkuCode: null,
+      ...item,
+    },
+  ],
+  ...overrides,
+});
+
+const pageResponse = (result: unknown, totalPages = 1) =>
+  ({ totalSize: 1, page: 1, pageSize: 50, totalPages: totalPages, result: result }) as any;
+
+describe('CrawlCoupangDetailProductsProvider', () => {
+  const provider = new CrawlCoupangDetailProductsProvider();
+
+  describe('scrapeProductPage', () => {
+    it('개수 API가 아닌 인벤토리 목록 API 응답만 변환한다', async () => {
+      const { page } = await openWingFixturePage(path.join(WING_FIXTURES_DIR, 'vendor-inventory'));
+
+      const result = await provider.scrapeProductPage(page, 1);
+
+      expect(result.totalPages).toBe(1);
+      expect(result.rows).toEqual([
+        {
+          sellerProductId: '1000000011',
+          sellerProductName: 'TST0011 테스트 상품 C',
+          productCode: 'TST0011',
+          isWinner: true,
+          price: 12900,
+          shippingCost: 0,
+          status: 'APPROVED',
+          items: [
+            {
+              vendorItemId: 70000000111,
+              optionName: '1개',
+              price: 12900,
+              shippingCost: 0,
+              stock: 30,
+              status: 'ON_SALE',
+              isWinner: true,
+            },
+            {
+              vendorItemId: 70000000112,
+              optionName: '2개',
+              price: 24900,
+              shippingCost: 0,
+              stock: null,
+              status: 'SUSPENDED',
+              isWinner: false,
+            },
+          ],
+        },
+        expect.objectContaining({
+          sellerProductId: '1000000012',
+          productCode: null,
+          price: null,
+          shippingCost: 3000,
+        }),
+      ]);
+      expect(result.rejected).toEqual([
+        expect.objectContaining({
+          page: 1,
+          rowIndex: 2,
+          reason: '아이템 70000000131의 위너 여부가 불리언이 아닙니다',
+        }),
+      ]);
+    });
+  });
+
+  describe('parseInventoryResponse', () => {
+    it('재고는 stockQuantity만 사용하고 최대 구매 수량으로 대신하지 않는다', () => {
+      const result = provider.parseInventoryResponse(
+        pageResponse([inventory({}, { stockQuantity: null, maximumBuyCount: 10 })]),
+        1,
+      );
+
+      expect(result.rows[0].items[0].stock).toBeNull();
+    });
+
+    it('판매자 상품 코드가 없으면 상품명에서 추측하지 않고 null로 둔다', () => {
+      const result = provider.parseInventoryResponse(pageResponse([inventory()]), 1);
+
+      expect(result.rows[0].productCode).toBeNull();
+    });
+
+    it('위너 여부가 불리언이 아닌 상품은 제외하고 나머지 상품은 수집한다', () => {
+      const result = provider.parseInventoryResponse(
+        pageResponse([
+          inventory({}, { itemWinner: 'false' }),
+          inventory({ sellerProductId: 1000000022 }),
+        ]),
+        3,
+      );
+
+      expect(result.rows.map((row) => row.sellerProductId)).toEqual(['1000000022']);
+      expect(result.rejected).toEqual([
+        expect.objectContaining({ page: 3, rowIndex: 0, raw: expect.stringContaining('"false"') }),
+      ]);
+    });
+
+    it('판매자 상품 ID나 아이템이 없는 상품은 제외한다', () => {
+      const result = provider.parseInventoryResponse(
+        pageResponse([
+          inventory({ sellerProductId: null }),
+          inventory({ vendorInventoryItems: [] }),
+          inventory({}, { vendorItemId: null }),
+        ]),
+        1,
+      );
+
+      expect(result.rows).toEqual([]);
+      expect(result.rejected.map((row) => row.reason)).toEqual([
+        '판매자 상품 ID가 없습니다',
+        '아이템(옵션)이 없습니다',
+        '아이템 ID가 없습니다',
+      ]);
+    });
+
+    it('result가 배열이 아니거나 totalPages가 없으면 예외를 던진다', () => {
+      expect(() => provider.parseInventoryResponse(pageResponse({ items: [] }), 1)).toThrow(
+        '인벤토리 목록 응답 형식이 다릅니다',
+      );
+      expect(() => provider.parseInventoryResponse({ result: [] } as any, 1)).toThrow(
+        '인벤토리 목록 응답 형식이 다릅니다',
+      );
+      expect(() => provider.parseInventoryResponse(null, 1)).toThrow(
+        '인벤토리 목록 응답 형식이 다릅니다',
+      );
+    });
+
+    it('전체 페이지 수 이내의 빈 페이지는 마지막 페이지로 보지 않고 예외를 던진다', () => {
+      expect(() => provider.parseInventoryResponse(pageResponse([], 3), 2)).toThrow(
+        '인벤토리 목록 2/3 페이지가 비어 있습니다',
+      );
+    });
+
+    it('상품이 하나도 없는 판매자는 빈 결과와 전체 페이지 수 0을 반환한다', () => {
+      expect(provider.parseInventoryResponse(pageResponse([], 0), 1)).toEqual({
+        rows: [],
+        rejected: [],
+        totalPages: 0,
+      });
+    });
+  });
+});
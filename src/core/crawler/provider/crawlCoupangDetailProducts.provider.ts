@@ -1,46 +1,99 @@
-import { CoupangExtractDetail } from '@daechanjo/models';
 import { Injectable } from '@nestjs/common';
 import { Page } from 'playwright';
 
+import { CrawlPageResult } from '../../types/coupangCrawl.types';
+import { CoupangInventoryItem, CoupangInventoryProduct } from '../../types/coupangProduct.types';
+import { WING_RESPONSES, WING_URLS } from '../wing.selectors';
+
+/**
+ * 윙 판매자 인벤토리 목록 API 응답의 아이템(옵션)
+ */
+interface VendorInventoryItemResponse {
+  vendorItemId: number;
+  itemName: string;
+  salePrice: number | null;
+  deliveryCharge: number | null;
+  stockQuantity: number | null;
+  salesStatus: string | null;
+  itemWinner: boolean;
+  externalVendorSkuCode: string | null;
+}
+
+/**
+ * 윙 판매자 인벤토리 목록 API 응답의 상품
+ */
+interface VendorInventoryResponse {
+  sellerProductId: number;
+  sellerProductName: string;
+  productStatus: string | null;
+  vendorInventoryItems: VendorInventoryItemResponse[];
+}
+
+/**
+ * 윙 판매자 인벤토리 목록 API 응답 (WING_RESPONSES.vendorInventoryList)
+ */
+interface VendorInventoryPageResponse {
+  totalSize: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  result: VendorInventoryResponse[];
+}
+
+// 제외한 행에 남기는 원본 JSON 최대 길이
+const RAW_SNIPPET_LENGTH = 2000;
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(String(value).replace(/[^\d.-]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
 /**
  * 쿠팡 윙 관리자 페이지에서 상품 상세 정보를 크롤링하는 프로바이더
  *
  * @description
- * 이 프로바이더는 쿠팡 윙의 판매자 인벤토리 페이지를 크롤링하여
- * 상품 코드, 가격, 배송비, 아이템 위너 상태 등의 상세 정보를 수집합니다.
- * 페이지네이션을 처리하고 스크롤 동작을 포함한 크롤링 로직을 캡슐화합니다.
+ * 이 프로바이더는 쿠팡 윙의 판매자 인벤토리 페이지가 호출하는 목록 API 응답을 가로채
+ * 상품 코드, 가격, 배송비, 아이템 위너 상태, 아이템(옵션)별 재고와 판매 상태를 수집합니다.
+ * DOM을 파싱하지 않으므로 스크롤이나 렌더링 대기가 필요 없습니다.
  */
 @Injectable()
 export class CrawlCoupangDetailProductsProvider {
   constructor() {}
 
   /**
-   * 특정 페이지의 상품 목록을 스크래핑하는 메서드
+   * 특정 페이지의 상품 목록을 수집하는 메서드
    *
    * @param page - Playwright의 Page 객체
    * @param currentPage - 현재 크롤링할 페이지 번호
-   * @returns {Promise<any[]>} - 스크래핑된 상품 정보 배열
+   * @returns {Promise<CrawlPageResult<CoupangInventoryProduct> & { totalPages: number }>} - 수집된 상품과 제외한 행, 전체 페이지 수
+   *
+   * @throws {Error} - 응답이 인벤토리 목록 형식이 아니거나, 마지막 페이지 전에 빈 목록이 온 경우
    *
    * @description
-   * 이 메서드는 쿠팡 윙의 특정 페이지로 이동하여 상품 정보를 스크래핑합니다.
-   * 각 상품의 판매자 상품 ID, 상품 코드, 아이템 위너 여부, 가격, 배송비 정보를 추출합니다.
-   * 페이지 내의 모든 콘텐츠를 확인하기 위해 점진적인 스크롤 동작을 수행합니다.
+   * 이 메서드는 쿠팡 윙의 특정 페이지로 이동하면서 인벤토리 목록 API의 JSON 응답을 기다린 뒤,
+   * 각 상품의 판매자 상품 ID, 상품 코드, 아이템 위너 여부, 가격, 배송비와 아이템별 정보를 추출합니다.
+   * 개수나 필터 API처럼 경로가 다른 응답은 기다리지 않으며, 마지막 페이지 여부는 응답의 totalPages로 판단합니다.
    */
-  async scrapeProductPage(page: Page, currentPage: number): Promise<CoupangExtractDetail[]> {
-    // 페이지 이동 및 로딩 대기
-    await this.navigateToProductPage(page, currentPage);
-
-    // 페이지 로딩 후 잠시 대기
-    await this.delay(3000);
+  async scrapeProductPage(
+    page: Page,
+    currentPage: number,
+  ): Promise<CrawlPageResult<CoupangInventoryProduct> & { totalPages: number }> {
+    // API 응답 캐치 설정 (목록 API 경로와 정확히 일치하는 응답만)
+    const responsePromise = page.waitForResponse(
+      (response) =>
+        new URL(response.url()).pathname === WING_RESPONSES.vendorInventoryList &&
+        ['xhr', 'fetch'].includes(response.request().resourceType()) &&
+        response.status() === 200,
+      { timeout: 30000 },
+    );
 
-    // 페이지 전체 스크롤 수행
-    await this.scrollFullPage(page);
+    // 페이지 이동
+    await this.navigateToProductPage(page, currentPage);
 
-    // 추가 대기로 동적 콘텐츠가 모두 로드되도록 함
-    await this.delay(3000);
+    const response = await responsePromise;
 
-    // 페이지의 모든 상품 정보 추출
-    return this.extractProductDetails(page);
+    return this.parseInventoryResponse(await response.json(), currentPage);
   }
 
   /**
@@ -55,96 +108,101 @@ export class CrawlCoupangDetailProductsProvider {
    * URL 파라미터를 통해 페이지 번호, 정렬 방식, 페이지당 항목 수 등을 지정합니다.
    */
   private async navigateToProductPage(page: Page, pageNumber: number): Promise<void> {
-    await page.goto(
-      `https://wing.coupang.com/vendor-inventory/list?searchKeywordType=ALL&searchKeywords=&salesMethod=ALL&productStatus=ALL&stockSearchType=ALL&shippingFeeSearchType=ALL&displayCategoryCodes=&listingStartTime=null&listingEndTime=null&saleEndDateSearchType=ALL&bundledShippingSearchType=ALL&displayDeletedProduct=false&shippingMethod=ALL&exposureStatus=ALL&locale=ko_KR&sortMethod=SORT_BY_ITEM_LEVEL_UNIT_SOLD&countPerPage=50&page=${pageNumber}`,
-    );
+    await page.goto(WING_URLS.vendorInventory(pageNumber));
   }
 
   /**
-   * 지정된 시간(밀리초) 동안 실행을 지연
+   * 인벤토리 목록 API 응답을 상품 정보로 변환
    *
-   * @param ms - 지연할 시간(밀리초)
-   * @returns {Promise<void>} - 지연 시간 경과 후 resolve되는 Promise
-   */
-  private async delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
-  /**
-   * 페이지 전체를 부드럽게 스크롤
+   * @param body - 인벤토리 목록 API의 JSON 응답
+   * @param pageNumber - 응답을 받은 페이지 번호 (제외한 행 기록용)
+   * @returns {CrawlPageResult<CoupangInventoryProduct> & { totalPages: number }} - 변환한 상품과 제외한 행, 전체 페이지 수
    *
-   * @param page - Playwright의 Page 객체
-   * @returns {Promise<void>} - 스크롤 완료 후 Promise 반환
+   * @throws {Error} - result가 배열이 아니거나 totalPages가 없는 경우, totalPages 이내의 페이지가 비어 있는 경우
    *
    * @description
-   * 페이지의 모든 콘텐츠를 로드하기 위해 상단에서 하단까지 점진적으로 스크롤합니다.
-   * 자연스러운 사용자 동작을 모방하여 봇 탐지를 회피하고 동적 콘텐츠가 로드되도록 합니다.
+   * 응답 형식이 다르면 빈 페이지로 취급하지 않고 예외를 던져, 크롤링이 끝난 것으로 오인하지 않도록 합니다.
+   * 행 단위로 변환하므로 한 상품을 변환하지 못해도 같은 페이지의 나머지 상품은 그대로 수집합니다.
+   * 가격이 없는 아이템은 해당 아이템의 가격만 null로 두고, 필수 필드가 없거나 형식이 다른 상품은
+   * 사유와 원본 JSON 일부를 담아 제외한 행으로 반환합니다.
    */
-  private async scrollFullPage(page: Page): Promise<void> {
-    await page.evaluate(async () => {
-      const scrollStep = 100; // 한 번에 스크롤할 픽셀 수
-      const scrollDelay = 100; // 스크롤 간 딜레이(ms)
-
-      for (let y = 0; y < document.body.scrollHeight; y += scrollStep) {
-        window.scrollBy(0, scrollStep);
-        await new Promise((resolve) => setTimeout(resolve, scrollDelay)); // 각 스크롤 간격마다 대기
+  parseInventoryResponse(
+    body: VendorInventoryPageResponse,
+    pageNumber: number,
+  ): CrawlPageResult<CoupangInventoryProduct> & { totalPages: number } {
+    if (!Array.isArray(body?.result) || !Number.isInteger(body?.totalPages)) {
+      throw new Error(
+        `인벤토리 목록 응답 형식이 다릅니다: ${JSON.stringify(body ?? null).slice(0, 200)}`,
+      );
+    }
+    if (body.result.length === 0 && pageNumber <= body.totalPages) {
+      throw new Error(`인벤토리 목록 ${pageNumber}/${body.totalPages} 페이지가 비어 있습니다`);
+    }
+
+    const result: CrawlPageResult<CoupangInventoryProduct> & { totalPages: number } = {
+      rows: [],
+      rejected: [],
+      totalPages: body.totalPages,
+    };
+
+    body.result.forEach((inventory, rowIndex) => {
+      try {
+        result.rows.push(this.parseInventory(inventory));
+      } catch (error: any) {
+        result.rejected.push({
+          page: pageNumber,
+          rowIndex: rowIndex,
+          reason: error.message,
+          raw: JSON.stringify(inventory ?? null).slice(0, RAW_SNIPPET_LENGTH),
+        });
       }
     });
+
+    return result;
   }
 
   /**
-   * 페이지에서 상품 정보 추출
-   *
-   * @param page - Playwright의 Page 객체
-   * @returns {Promise<any[]>} - 추출된 상품 정보 배열
-   *
-   * @description
-   * 페이지 내의 모든 상품 행('tr.inventory-line')에서 필요한 정보를 추출합니다.
-   * DOM에서 상품 ID, 코드, 가격, 배송비, 아이템 위너 상태 등의 정보를 파싱합니다.
+   * 인벤토리 목록 응답의 상품 하나를 변환 (변환할 수 없으면 사유를 담아 예외 발생)
    */
-  private async extractProductDetails(page: Page): Promise<CoupangExtractDetail[]> {
-    return page.evaluate(() => {
-      const getPrice = (text: string) => text?.replace(/[^0-9]/g, '') || null;
-
-      // 모든 상품 행을 순회하며 데이터 추출
-      return Array.from(document.querySelectorAll('tr.inventory-line')).map((row) => {
-        const ipContentDiv = row.querySelector('.ip-right .ip-content div:nth-child(3)');
-        const sellerProductId = ipContentDiv
-          ? ipContentDiv.textContent.replace(/[^0-9]/g, '')
-          : null;
-
-        const ipTitleElement = row.querySelector('.ip-title');
-        const fullText = ipTitleElement?.textContent?.trim() || '';
-        const parts = fullText.split(' ');
-
-        // 제품 코드 이후의 텍스트를 상품 이름으로 추출
-        const sellerProductName = parts.length > 1 ? parts.slice(1).join(' ') : '';
-        const productCode = parts[0] || null;
-
-        // const productCode =
-        //   row.querySelector('.ip-title')?.textContent?.trim().split(' ')[0] || null;
-
-        const isWinnerContainer = row.querySelector('.ies-container');
-        const isWinnerText =
-          isWinnerContainer?.querySelector('.ies-top')?.textContent?.trim().replace(/\s/g, '') ||
-          '';
-        const isWinner = isWinnerText === 'Itemwinner';
-
-        const priceText = row.querySelector('.isp-top')?.textContent || '';
-        const shippingText = row.querySelector('.isp-bottom')?.textContent || '';
-
-        if (!parseInt(getPrice(priceText))) {
-          throw new Error('가격이 없습니다');
-        }
-        return {
-          sellerProductId,
-          sellerProductName,
-          productCode,
-          isWinner,
-          price: parseInt(getPrice(priceText)),
-          shippingCost: shippingText ? parseInt(getPrice(shippingText)) || 0 : 0,
-        };
-      });
+  private parseInventory(inventory: VendorInventoryResponse): CoupangInventoryProduct {
+    const sellerProductId = toNumber(inventory?.sellerProductId);
+    if (!sellerProductId) throw new Error('판매자 상품 ID가 없습니다');
+
+    const rawItems = inventory.vendorInventoryItems;
+    if (!Array.isArray(rawItems) || rawItems.length === 0) {
+      throw new Error('아이템(옵션)이 없습니다');
+    }
+
+    const items: CoupangInventoryItem[] = rawItems.map((item) => {
+      const vendorItemId = toNumber(item?.vendorItemId);
+      if (!vendorItemId) throw new Error('아이템 ID가 없습니다');
+      if (typeof item.itemWinner !== 'boolean') {
+        throw new Error(`아이템 ${vendorItemId}의 위너 여부가 불리언이 아닙니다`);
+      }
+
+      return {
+        vendorItemId: vendorItemId,
+        optionName: item.itemName ?? '',
+        price: toNumber(item.salePrice),
+        shippingCost: toNumber(item.deliveryCharge) ?? 0,
+        stock: toNumber(item.stockQuantity),
+        status: item.salesStatus ?? null,
+        isWinner: item.itemWinner,
+      };
     });
+
+    const sellerProductName = String(inventory.sellerProductName ?? '');
+    const representative = items[0];
+
+    return {
+      sellerProductId: String(sellerProductId),
+      sellerProductName: sellerProductName,
+      productCode: rawItems[0].externalVendorSkuCode || null,
+      isWinner: items.some((item) => item.isWinner),
+      price: representative.price,
+      shippingCost: representative.shippingCost,
+      status: inventory.productStatus ?? representative.status ?? null,
+      items: items,
+    };
   }
 }
@@ -1,70 +1,151 @@
 import { Injectable } from '@nestjs/common';
 import { Page } from 'playwright';
 import { CoupangPriceComparisonData, WinnerStatus } from '@daechanjo/models';
+import { CoupangCheckpointRepository } from '../../../infrastructure/repository/coupang.checkpoint.repository';
 import { CoupangRepository } from '../../../infrastructure/repository/coupang.repository';
+import { WING_RESPONSES, WING_URLS } from '../wing.selectors';
+
+interface PriceComparisonPageResponse {
+  totalSize: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  vendorItemIds: string | number | null;
+  result: CoupangPriceComparisonData[];
+}
+
+// 페이지 하나를 포기하기 전까지 시도하는 횟수
+const PAGE_ATTEMPTS = 3;
 
 @Injectable()
 export class CrawlCoupangPriceComparisonProvider {
-  constructor(private readonly coupangRepository: CoupangRepository) {}
+  constructor(
+    private readonly coupangRepository: CoupangRepository,
+    private readonly coupangCheckpointRepository: CoupangCheckpointRepository,
+  ) {}
 
   /**
-   * 가격 비교 페이지를 스크래핑하는 메서드
+   * 가격 비교 페이지를 여러 브라우저 페이지에서 나누어 스크래핑하는 메서드
    *
-   * @param coupangPage - Playwright의 Page 객체
+   * @param coupangPages - 로그인된 Playwright의 Page 객체 목록 (페이지 수만큼 동시에 수집)
    * @param winnerStatus - 가격 경쟁 상태 (WIN_NOT_SUPPRESSED 또는 LOSE_NOT_SUPPRESSED)
    * @param jobId - 크론 작업 식별자
    * @param jobType - 로그 유형
    * @returns {Promise<void>} - 스크래핑 완료 후 Promise 반환
+   *
+   * @throws {Error} - 재시도 후에도 수집하지 못한 페이지가 있는 경우 (완료된 페이지는 체크포인트에 남음)
+   *
+   * @description
+   * 1. 첫 페이지로 전체 페이지 수를 확인 (체크포인트에 저장된 값이 있으면 재사용)
+   * 2. 체크포인트에 완료로 기록되지 않은 페이지만 브라우저 페이지 수만큼 동시에 수집
+   * 3. 페이지마다 스냅샷 저장(실행 ID + 아이템 기준 upsert) 후 완료 페이지를 체크포인트에 기록
+   * 4. 실패한 페이지는 최대 3번까지 재시도
+   * 5. 모든 페이지를 수집하면 체크포인트 삭제
    */
   async scrapePriceComparisonPages(
-    coupangPage: Page,
+    coupangPages: Page[],
     winnerStatus: WinnerStatus,
     jobId: string,
     jobType: string,
   ): Promise<void> {
-    let currentPage = 1;
+    const checkpointKey = `coupang:crawl:price-comparison:${jobId}:${winnerStatus}`;
+    const completedPages = await this.coupangCheckpointRepository.getCompletedPages(checkpointKey);
+
+    let totalPages = Number(await this.coupangCheckpointRepository.getValue(checkpointKey));
+    if (!totalPages) {
+      const firstPage = await this.fetchPage(coupangPages[0], winnerStatus, 1);
+      totalPages = firstPage.totalPages;
+
+      await this.savePage(firstPage, 1, checkpointKey, jobId, jobType);
+      await this.coupangCheckpointRepository.setValue(checkpointKey, totalPages);
+      completedPages.add(1);
+    }
 
-    // 모든 페이지 순회
-    while (true) {
-      // 현재 페이지 URL 구성
-      const pageUrl = `https://wing.coupang.com/tenants/seller-price-management/?searchInputValue=&searchInputType=KEYWORD&itemWinnerStatus=${winnerStatus}&salesMethod=ALL&autoPriceStatus=ALL&salesStatus=ON_SALE&alarmStatus=ALL&listingDate.startDate=&listingDate.endDate=&searchPresets&isTopGMV&page=${currentPage}&pageSize=100&sortingType=MY_VI_SALES_DESC`;
+    const pendingPages = Array.from({ length: totalPages }, (_, i) => i + 1).filter(
+      (page) => !completedPages.has(page),
+    );
 
-      // API 응답 캐치 설정
-      const responsePromise = coupangPage.waitForResponse(
-        (response) => response.url().includes('getProductList') && response.status() === 200,
+    if (completedPages.size > 0) {
+      console.log(
+        `${jobType}${jobId}: 체크포인트에서 이어서 수집 - 완료 ${completedPages.size}/${totalPages} 페이지`,
       );
+    }
 
-      // 페이지로 이동
-      await coupangPage.goto(pageUrl);
+    const failedPages: number[] = [];
 
-      // 응답 기다리기
-      const productListResponse = await responsePromise;
+    // 브라우저 페이지마다 남은 페이지를 하나씩 가져가 수집
+    await Promise.all(
+      coupangPages.map(async (coupangPage) => {
+        while (pendingPages.length > 0) {
+          const pageNumber = pendingPages.shift()!;
 
-      // 응답 데이터 가져오기
-      const responseData: {
-        totalSize: number;
-        page: number;
-        pageSize: number;
-        totalPages: number;
-        vendorItemIds: string | number | null;
-        result: CoupangPriceComparisonData[];
-      } = await productListResponse.json();
+          for (let attempt = 1; attempt <= PAGE_ATTEMPTS; attempt++) {
+            try {
+              const responseData = await this.fetchPage(coupangPage, winnerStatus, pageNumber);
+              await this.savePage(responseData, pageNumber, checkpointKey, jobId, jobType);
+              break;
+            } catch (error: any) {
+              console.warn(
+                `${jobType}${jobId}: ${pageNumber} 페이지 수집 실패 (${attempt}/${PAGE_ATTEMPTS}) - ${error.message}`,
+              );
+              if (attempt === PAGE_ATTEMPTS) failedPages.push(pageNumber);
+            }
+          }
 
-      // 데이터 저장
-      await this.coupangRepository.savePriceComparison(responseData.result);
-      console.log(
-        `${jobType}${jobId}: ${currentPage}/${responseData.totalPages} 페이지 - ${responseData.result.length}개 데이터 수집 완료`,
+          await coupangPage.waitForTimeout(1000);
+        }
+      }),
+    );
+
+    if (failedPages.length > 0) {
+      throw new Error(
+        `가격 비교 ${failedPages.length}개 페이지 수집 실패: ${failedPages.sort((a, b) => a - b).join(', ')}`,
       );
+    }
 
-      // 마지막 페이지 확인
-      if (responseData.totalPages === currentPage) break;
+    await this.coupangCheckpointRepository.clear(checkpointKey);
+  }
 
-      currentPage++;
+  /**
+   * 가격 비교 페이지 하나로 이동하여 상품 목록 응답을 가져오는 메서드
+   */
+  private async fetchPage(
+    coupangPage: Page,
+    winnerStatus: WinnerStatus,
+    pageNumber: number,
+  ): Promise<PriceComparisonPageResponse> {
+    const pageUrl = WING_URLS.priceManagement(winnerStatus, pageNumber);
 
-      // 마지막 페이지가 아니라면 잠시 대기
-      if (currentPage <= responseData.totalPages) {
-        await coupangPage.waitForTimeout(1000);
-      }
-    }
+    // API 응답 캐치 설정
+    const responsePromise = coupangPage.waitForResponse(
+      (response) =>
+        response.url().includes(WING_RESPONSES.priceComparisonProductList) &&
+        response.status() === 200,
+    );
+
+    await coupangPage.goto(pageUrl);
+
+    const productListResponse = await responsePromise;
+
+    return await productListResponse.json();
+  }
+
+  /**
+   * 페이지 데이터를 스냅샷으로 저장하고 완료 페이지를 체크포인트에 기록하는 메서드
+   */
+  private async savePage(
+    responseData: PriceComparisonPageResponse,
+    pageNumber: number,
+    checkpointKey: string,
+    jobId: string,
+    jobType: string,
+  ): Promise<void> {
+    // 크롤링 실행(jobId) 스냅샷으로 저장 (같은 페이지를 다시 저장해도 중복되지 않음)
+    await this.coupangRepository.savePriceComparison(responseData.result, jobId);
+    await this.coupangCheckpointRepository.markPageCompleted(checkpointKey, pageNumber);
+
+    console.log(
+      `${jobType}${jobId}: ${pageNumber}/${responseData.totalPages} 페이지 - ${responseData.result.length}개 데이터 수집 완료`,
+    );
   }
 }
@@ -0,0 +1,65 @@
+import * as path from 'path';
+
+import { DeleteConfirmedCoupangProductProvider } from './deleteConfirmedCoupangProduct.provider';
+import {
+  findMissingSelectors,
+  openWingFixturePage,
+  WING_FIXTURES_DIR,
+} from '../../../../test/wing/wing.fixture.harness';
+import { WING_SELECTORS } from '../wing.selectors';
+
+describe('DeleteConfirmedCoupangProductProvider', () => {
+  const provider = new DeleteConfirmedCoupangProductProvider();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('비준수 상품 목록 스냅샷에 인벤토리 셀렉터가 모두 있다', async () => {
+    const { page } = await openWingFixturePage(
+      path.join(WING_FIXTURES_DIR, 'non-conforming-inventory'),
+    );
+    await provider.navigateToNonConformingProductsPage(page);
+
+    expect(await findMissingSelectors(page, WING_SELECTORS.inventory)).toEqual([]);
+  });
+
+  it('상품명의 첫 단어를 상품 코드로 추출하고 상품명이 없는 행은 제외한다', async () => {
+    const { page } = await openWingFixturePage(
+      path.join(WING_FIXTURES_DIR, 'non-conforming-inventory'),
+    );
+    await provider.navigateToNonConformingProductsPage(page);
+
+    const result = await provider.extractNonConformingProductCodes(page, 'job-1', 'TEST');
+
+    expect(result.rows).toEqual(['TST0001', 'TST0002']);
+    expect(result.rejected).toEqual([
+      expect.objectContaining({ page: 1, rowIndex: 2, reason: '상품명이 비어 있습니다' }),
+      expect.objectContaining({ page: 1, rowIndex: 3, reason: '상품명 요소가 없습니다' }),
+    ]);
+    expect(result.rejected[0].raw).toContain('data-seller-product-id="1000000003"');
+  });
+
+  it('상품 행이 없으면 예외를 던진다', async () => {
+    const { page } = await openWingFixturePage(path.join(WING_FIXTURES_DIR, 'vendor-inventory'));
+    await provider.navigateToNonConformingProductsPage(page);
+
+    await expect(provider.extractNonConformingProductCodes(page, 'job-1', 'TEST')).rejects.toThrow(
+      'No non-conforming products found',
+    );
+  });
+
+  it('상품 코드가 등록상품명에 포함된 상품만 찾는다', () => {
+    const products = [
+      { sellerProductId: 1, sellerProductName: 'TST0001 테스트 상품 A 500ml' },
+      { sellerProductId: 2, sellerProductName: 'TST0009 다른 상품' },
+      { sellerProductId: 3, sellerProductName: null },
+    ];
+
+    expect(provider.findMatchingProducts(['TST0001', 'TST0002'], products)).toEqual([products[0]]);
+  });
+});
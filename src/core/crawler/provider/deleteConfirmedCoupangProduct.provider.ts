@@ -1,6 +1,12 @@
 import { Injectable } from '@nestjs/common';
 import { Page } from 'playwright';
 
+import { CrawlPageResult } from '../../types/coupangCrawl.types';
+import { WING_SELECTORS, WING_URLS } from '../wing.selectors';
+
+// 제외한 행에 남기는 행 HTML 최대 길이
+const RAW_SNIPPET_LENGTH = 2000;
+
 /**
  * 쿠팡 윙에서 비준수 상품을 조회하고 삭제하는 기능을 제공하는 프로바이더
  *
@@ -22,10 +28,7 @@ export class DeleteConfirmedCoupangProductProvider {
    * 페이지 이동 후 네트워크 요청이 완료될 때까지 기다립니다.
    */
   async navigateToNonConformingProductsPage(page: Page): Promise<void> {
-    await page.goto(
-      `https://wing.coupang.com/vendor-inventory/list?searchKeywordType=ALL&searchKeywords=&salesMethod=ALL&productStatus=ALL&stockSearchType=ALL&shippingFeeSearchType=ALL&displayCategoryCodes=&listingStartTime=null&listingEndTime=null&saleEndDateSearchType=ALL&bundledShippingSearchType=ALL&displayDeletedProduct=false&shippingMethod=ALL&exposureStatus=NON_CONFORMING_ATTR&locale=ko_KR&sortMethod=SORT_BY_REGISTRATION_DATE&countPerPage=50&page=1`,
-      { timeout: 0 },
-    );
+    await page.goto(WING_URLS.nonConformingInventory(), { timeout: 0 });
     await page.waitForLoadState('networkidle');
   }
 
@@ -35,34 +38,49 @@ export class DeleteConfirmedCoupangProductProvider {
    * @param page - Playwright의 Page 객체
    * @param jobId - 크론 작업 ID
    * @param jobType - 로그 메시지 타입
-   * @returns {Promise<string[]>} - 추출된 상품 코드 배열
+   * @returns {Promise<CrawlPageResult<string>>} - 추출된 상품 코드와 제외한 행
    * @throws {Error} - 상품을 찾을 수 없는 경우 예외 발생
    *
    * @description
    * 페이지에서 상품 행(tr.inventory-line)을 찾아 각 상품의 제목에서 상품 코드를 추출합니다.
    * 상품 코드는 제목의 첫 번째 단어로 가정합니다.
+   * 제목이 없는 행은 사유와 행 HTML 일부를 담아 제외한 행으로 반환하고 나머지 행은 그대로 추출합니다.
    * 상품이 없는 경우 timeout 예외가 발생할 수 있으며, 이 경우 적절한 메시지를 출력합니다.
    */
   async extractNonConformingProductCodes(
     page: Page,
     jobId: string,
     jobType: string,
-  ): Promise<string[]> {
+  ): Promise<CrawlPageResult<string>> {
     try {
       console.log(`${jobType}${jobId}: 컨펌 상품 확인중...`);
       // 상품 행이 로드될 때까지 대기
-      await page.waitForSelector('tr.inventory-line', { timeout: 6000 });
+      await page.waitForSelector(WING_SELECTORS.inventory.row, { timeout: 6000 });
 
-      // 페이지에서 상품 코드 추출
-      return page.evaluate(() => {
-        return Array.from(document.querySelectorAll('tr.inventory-line'))
-          .map((row) => {
-            const titleElement = row.querySelector('.ip-title');
+      // 페이지에서 행 단위로 상품 코드 추출
+      const rows = await page.evaluate(
+        ({ selectors, rawLength }) => {
+          return Array.from(document.querySelectorAll(selectors.row)).map((row) => {
+            const titleElement = row.querySelector(selectors.title);
             const text = titleElement?.textContent?.trim();
-            return text ? text.split(' ')[0] : null;
-          })
-          .filter((code): code is string => code !== null);
+            if (text) return { code: text.split(' ')[0] };
+
+            return {
+              reason: titleElement ? '상품명이 비어 있습니다' : '상품명 요소가 없습니다',
+              raw: row.outerHTML.slice(0, rawLength),
+            };
+          });
+        },
+        { selectors: WING_SELECTORS.inventory, rawLength: RAW_SNIPPET_LENGTH },
+      );
+
+      const result: CrawlPageResult<string> = { rows: [], rejected: [] };
+      rows.forEach((row, rowIndex) => {
+        if ('code' in row) result.rows.push(row.code);
+        else result.rejected.push({ page: 1, rowIndex: rowIndex, ...row });
       });
+
+      return result;
     } catch (error: any) {
       console.log(
         `${jobType}${jobId}: 새로운 컨펌 상품이 없습니다\n`,
@@ -0,0 +1,100 @@
+import * as path from 'path';
+
+import { InvoiceUploaderProvider } from './invoiceUploader.provider';
+import {
+  findMissingSelectors,
+  openWingFixturePage,
+  WING_FIXTURES_DIR,
+} from '../../../../test/wing/wing.fixture.harness';
+import { WING_SELECTORS } from '../wing.selectors';
+
+const DELIVERY_FIXTURE = path.join(WING_FIXTURES_DIR, 'delivery-management');
+
+const order = (name: string, safeNumber: string, courier = 'CJ대한통운') => ({
+  orderId: 'order-1',
+  courier: { courier: courier, trackingNumber: '123456789012' },
+  receiver: { name: name, safeNumber: safeNumber },
+});
+
+describe('InvoiceUploaderProvider', () => {
+  const provider = new InvoiceUploaderProvider();
+
+  beforeEach(() => {
+    // 화면 안정화를 위한 대기는 스냅샷에서 필요 없음
+    jest.spyOn(InvoiceUploaderProvider.prototype as any, 'delay').mockResolvedValue(undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('배송 관리 스냅샷에 배송 셀렉터가 모두 있다', async () => {
+    const { page } = await openWingFixturePage(DELIVERY_FIXTURE);
+    await provider.navigateToDeliveryManagementPage(page);
+
+    expect(await findMissingSelectors(page, WING_SELECTORS.delivery)).toEqual([]);
+  });
+
+  it('수취인 이름과 안심번호가 일치하는 행에 택배사와 운송장 번호를 입력하고 적용한다', async () => {
+    const { page, fixturePage } = await openWingFixturePage(DELIVERY_FIXTURE);
+    await provider.navigateToDeliveryManagementPage(page);
+    await provider.clickProcessingButton(page);
+
+    // 적용 후 새로고침하면 스냅샷이 다시 열리므로 새로고침 직전의 입력 상태를 기록
+    let applied: { checked: boolean; courier: string; trackingNumber: string } | undefined;
+    jest.spyOn(fixturePage, 'reload').mockImplementation(async () => {
+      const row = fixturePage.document.querySelector('tr[data-shipment-box-id="900000000001"]');
+      applied = {
+        checked: row.querySelector<HTMLInputElement>('input[type="checkbox"]').checked,
+        courier: row.querySelector<HTMLSelectElement>('select').value,
+        trackingNumber: row.querySelector<HTMLInputElement>('input[type="text"]').value,
+      };
+      return null;
+    });
+
+    const result = await provider.processOrder(
+      page,
+      order('홍길동', '0504-0000-0001'),
+      'TEST',
+      'job-1',
+    );
+
+    expect(result).toEqual(expect.objectContaining({ status: 'success', error: '' }));
+    expect(applied).toEqual({ checked: true, courier: 'CJGLS', trackingNumber: '123456789012' });
+  });
+
+  it('이름은 같지만 안심번호가 다르면 다음 페이지를 찾고 없으면 실패로 반환한다', async () => {
+    const { page } = await openWingFixturePage(DELIVERY_FIXTURE);
+    await provider.navigateToDeliveryManagementPage(page);
+
+    const result = await provider.processOrder(
+      page,
+      order('홍길동', '0504-0000-9999'),
+      'TEST',
+      'job-1',
+    );
+
+    expect(result).toEqual(
+      expect.objectContaining({ status: 'failed', error: '대기중인 상품을 찾을 수 없음' }),
+    );
+  });
+
+  it('등록되지 않은 택배사는 입력하지 않고 실패로 반환한다', async () => {
+    const { page, fixturePage } = await openWingFixturePage(DELIVERY_FIXTURE);
+    await provider.navigateToDeliveryManagementPage(page);
+    const reload = jest.spyOn(fixturePage, 'reload');
+
+    const result = await provider.processOrder(
+      page,
+      order('김테스트', '0504-0000-0002', '없는택배'),
+      'TEST',
+      'job-1',
+    );
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('없는택배');
+    expect(reload).not.toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,9 @@ import { Injectable } from '@nestjs/common';
 import { Page, ElementHandle } from 'playwright';
 import moment from 'moment-timezone';
 
+import { findCourier, UnknownCourierError } from '../../courier/coupang.courier.registry';
+import { WING_SELECTORS, WING_URLS } from '../wing.selectors';
+
 /**
  * 쿠팡 윙 관리자 페이지에서 송장 업로드 기능을 제공하는 프로바이더
  *
@@ -34,13 +37,7 @@ export class InvoiceUploaderProvider {
 
     // 한 달 전 날짜 (startDate)
     const startDate = koreaTime.clone().subtract(30, 'days').format('YYYY-MM-DD');
-    // await page.goto('https://wing.coupang.com/tenants/sfl-portal/delivery/management', {
-    //   timeout: 0,
-    // });
-    await page.goto(
-      `https://wing.coupang.com/tenants/sfl-portal/delivery/management?deliverStatus=INSTRUCT&startDate=${startDate}&endDate=${endDate}`,
-      { timeout: 0 },
-    );
+    await page.goto(WING_URLS.deliveryManagement(startDate, endDate), { timeout: 0 });
     await this.delay(1000);
   }
 
@@ -57,15 +54,15 @@ export class InvoiceUploaderProvider {
    * 버튼을 찾지 못한 경우 명시적인 에러를 발생시켜 문제를 즉시 파악할 수 있게 합니다.
    */
   async clickProcessingButton(page: Page): Promise<void> {
-    const found = await page.evaluate(() => {
+    const found = await page.evaluate((tabText) => {
       const elements = Array.from(document.querySelectorAll('span'));
-      const target = elements.find((el) => el.textContent === 'Processing');
+      const target = elements.find((el) => el.textContent === tabText);
       if (target) {
         (target as HTMLElement).click();
         return true;
       }
       return false;
-    });
+    }, WING_SELECTORS.delivery.processingTabText);
 
     if (!found) {
       await new Promise((resolve) => setTimeout(resolve, 1000000));
@@ -190,7 +187,7 @@ export class InvoiceUploaderProvider {
     name: string,
     safeNumber: string,
   ): Promise<ElementHandle | null> {
-    const nameSelector = `#tableContext span span:text("${name}")`;
+    const nameSelector = WING_SELECTORS.delivery.receiverName(name);
 
     try {
       // 이름에 해당하는 요소 찾기
@@ -231,7 +228,7 @@ export class InvoiceUploaderProvider {
    * 이는 UI에서 기술적으로 비활성화된 체크박스에 대한 우회 방법을 제공합니다.
    */
   private async selectCheckbox(row: ElementHandle): Promise<void> {
-    const checkbox = await row.$('input[type="checkbox"]');
+    const checkbox = await row.$(WING_SELECTORS.delivery.rowCheckbox);
 
     if (!checkbox) {
       throw new Error('체크박스를 찾을 수 없습니다.');
@@ -262,23 +259,32 @@ export class InvoiceUploaderProvider {
    * @returns {Promise<void>} - 배송사 선택 작업 완료 후 Promise 반환
    *
    * @description
-   * 주어진 테이블 행에서 select 드롭다운을 찾아, 지정된 배송사 이름과 일치하는 옵션을 선택합니다.
+   * 택배사 레지스트리에서 배송사 이름을 쿠팡 택배사 코드로 변환한 뒤,
+   * 주어진 테이블 행의 select 드롭다운에서 코드(value) 또는 표시명이 일치하는 옵션을 선택합니다.
    * 클라이언트 측 자바스크립트를 통해 옵션을 선택하고, change 이벤트를 발생시켜
    * 쿠팡 윙의 UI 업데이트 로직이 정상적으로 작동하도록 합니다.
+   *
+   * @throws {UnknownCourierError} - 등록되지 않은 택배사인 경우
    */
   private async selectCourier(row: ElementHandle, courier: string): Promise<void> {
-    const dropdown = await row.$('select');
+    const registered = findCourier(courier);
+    if (!registered) throw new UnknownCourierError(courier);
+
+    const dropdown = await row.$(WING_SELECTORS.delivery.courierSelect);
     if (dropdown) {
-      await dropdown.evaluate((dropdownElement: any, courier: any) => {
-        const options = Array.from(dropdownElement.options);
-        const targetOption = options.find(
-          (option) => (option as HTMLOptionElement).textContent!.trim() === courier.trim(),
-        );
-        if (targetOption) {
-          (targetOption as HTMLOptionElement).selected = true;
-          dropdownElement.dispatchEvent(new Event('change', { bubbles: true }));
-        }
-      }, courier);
+      await dropdown.evaluate(
+        (dropdownElement: any, target: { code: string; name: string }) => {
+          const options = Array.from(dropdownElement.options) as HTMLOptionElement[];
+          const targetOption =
+            options.find((option) => option.value === target.code) ??
+            options.find((option) => option.textContent!.trim() === target.name);
+          if (targetOption) {
+            targetOption.selected = true;
+            dropdownElement.dispatchEvent(new Event('change', { bubbles: true }));
+          }
+        },
+        { code: registered.code, name: registered.name },
+      );
     }
   }
 
@@ -295,10 +301,10 @@ export class InvoiceUploaderProvider {
    * 데이터 입력 후 일정 시간(1초) 대기하여 UI가 안정화되도록 합니다.
    */
   private async enterTrackingNumber(row: ElementHandle, trackingNumber: string): Promise<void> {
-    const editIcon = await row.$('i[data-wuic-props*="name:ico icon:edit"]');
+    const editIcon = await row.$(WING_SELECTORS.delivery.trackingEditIcon);
     if (editIcon) {
       await editIcon.click();
-      const trackingInput = await row.$('div[deliverytrackingmodal] input[type="text"]');
+      const trackingInput = await row.$(WING_SELECTORS.delivery.trackingInput);
       if (trackingInput) {
         await trackingInput.fill(trackingNumber);
       }
@@ -320,10 +326,10 @@ export class InvoiceUploaderProvider {
    * 버튼이 나타날 때까지 최대 5초간 대기하며, 시간 내에 나타나지 않으면 작업이 실패합니다.
    */
   private async applyChangesAndReload(page: Page, result: any): Promise<void> {
-    const applyButton = await page.waitForSelector(
-      'button[data-wuic-props*="name:btn type:primary"]',
-      { state: 'visible', timeout: 5000 },
-    );
+    const applyButton = await page.waitForSelector(WING_SELECTORS.delivery.applyButton, {
+      state: 'visible',
+      timeout: 5000,
+    });
 
     if (applyButton) {
       await applyButton.click();
@@ -355,12 +361,12 @@ export class InvoiceUploaderProvider {
     jobId: string,
   ): Promise<boolean> {
     await this.delay(1000);
-    const nextPage = await page.$(`span[data-wuic-attrs^="page:${currentPage + 1}"] a`);
+    const nextPage = await page.$(WING_SELECTORS.delivery.pageLink(currentPage + 1));
 
     if (nextPage) {
       console.log(`${jobType}${jobId}: 다음 페이지로 이동: ${currentPage + 1}`);
       await nextPage.click();
-      await page.waitForSelector('#tableContext', { timeout: 5000 });
+      await page.waitForSelector(WING_SELECTORS.delivery.table, { timeout: 5000 });
       await this.delay(1000);
       return true;
     }
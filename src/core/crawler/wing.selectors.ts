@@ -0,0 +1,97 @@
+/**
+ * 쿠팡 윙 셀렉터/URL 레지스트리 버전
+ *
+ * 윙 화면 구조가 바뀌어 셀렉터나 URL을 수정할 때 날짜 형식(yyyy-MM-dd)으로 함께 올립니다.
+ * 픽스처 하네스(test/wing)는 저장된 스냅샷의 버전과 이 값을 비교해 오래된 스냅샷을 알려줍니다.
+ */
+export const WING_SELECTORS_VERSION = '2026-10-19';
+
+const WING_ORIGIN = 'https://wing.coupang.com';
+
+/**
+ * 판매자 인벤토리 목록 URL의 공통 검색 조건
+ */
+const vendorInventoryListUrl = (params: {
+  exposureStatus: string;
+  sortMethod: string;
+  page: number;
+}): string =>
+  `${WING_ORIGIN}/vendor-inventory/list?searchKeywordType=ALL&searchKeywords=&salesMethod=ALL&productStatus=ALL&stockSearchType=ALL&shippingFeeSearchType=ALL&displayCategoryCodes=&listingStartTime=null&listingEndTime=null&saleEndDateSearchType=ALL&bundledShippingSearchType=ALL&displayDeletedProduct=false&shippingMethod=ALL&exposureStatus=${params.exposureStatus}&locale=ko_KR&sortMethod=${params.sortMethod}&countPerPage=50&page=${params.page}`;
+
+/**
+ * 윙 페이지 URL
+ */
+export const WING_URLS = {
+  origin: WING_ORIGIN,
+
+  /** 판매자 인벤토리 목록 (판매량순) */
+  vendorInventory: (page: number): string =>
+    vendorInventoryListUrl({
+      exposureStatus: 'ALL',
+      sortMethod: 'SORT_BY_ITEM_LEVEL_UNIT_SOLD',
+      page,
+    }),
+
+  /** 판매자 인벤토리 목록 중 비준수(NON_CONFORMING_ATTR) 상품 */
+  nonConformingInventory: (page: number = 1): string =>
+    vendorInventoryListUrl({
+      exposureStatus: 'NON_CONFORMING_ATTR',
+      sortMethod: 'SORT_BY_REGISTRATION_DATE',
+      page,
+    }),
+
+  /** 가격 관리 (아이템 위너 상태별 가격 비교) */
+  priceManagement: (winnerStatus: string, page: number): string =>
+    `${WING_ORIGIN}/tenants/seller-price-management/?searchInputValue=&searchInputType=KEYWORD&itemWinnerStatus=${winnerStatus}&salesMethod=ALL&autoPriceStatus=ALL&salesStatus=ON_SALE&alarmStatus=ALL&listingDate.startDate=&listingDate.endDate=&searchPresets&isTopGMV&page=${page}&pageSize=100&sortingType=MY_VI_SALES_DESC`,
+
+  /** 배송 관리 (상품준비중 주문, 날짜는 yyyy-MM-dd) */
+  deliveryManagement: (startDate: string, endDate: string): string =>
+    `${WING_ORIGIN}/tenants/sfl-portal/delivery/management?deliverStatus=INSTRUCT&startDate=${startDate}&endDate=${endDate}`,
+};
+
+/**
+ * 윙 페이지가 호출하는 내부 API 응답을 식별하는 URL 조각
+ */
+export const WING_RESPONSES = {
+  /** 판매자 인벤토리 목록 API (개수, 필터 API와 구분하기 위해 경로 전체로 비교) */
+  vendorInventoryList: '/tenants/seller-web/vendor-inventory/search',
+  /** 가격 관리 상품 목록 API */
+  priceComparisonProductList: 'getProductList',
+};
+
+/**
+ * 윙 화면 셀렉터 (화면별로 묶음)
+ *
+ * 값이 함수인 항목은 검색어나 페이지 번호가 들어가는 셀렉터입니다.
+ */
+export const WING_SELECTORS = {
+  inventory: {
+    /** 인벤토리 목록의 상품 행 */
+    row: 'tr.inventory-line',
+    /** 상품 행의 상품명 (첫 단어가 상품 코드) */
+    title: '.ip-title',
+  },
+
+  delivery: {
+    /** 'Processing' 탭 버튼 (span 텍스트로 찾음) */
+    processingTabText: 'Processing',
+    /** 주문 목록 테이블 */
+    table: '#tableContext',
+    /** 주문 목록 테이블의 행 */
+    tableRow: '#tableContext tr',
+    /** 수취인 이름이 표시된 요소 */
+    receiverName: (name: string): string => `#tableContext span span:text("${name}")`,
+    /** 행 선택 체크박스 */
+    rowCheckbox: 'input[type="checkbox"]',
+    /** 행의 택배사 드롭다운 */
+    courierSelect: 'select',
+    /** 운송장 번호 편집 아이콘 */
+    trackingEditIcon: 'i[data-wuic-props*="name:ico icon:edit"]',
+    /** 운송장 번호 입력 모달의 입력 필드 */
+    trackingInput: 'div[deliverytrackingmodal] input[type="text"]',
+    /** 적용 버튼 */
+    applyButton: 'button[data-wuic-props*="name:btn type:primary"]',
+    /** 페이지네이션 링크 */
+    pageLink: (page: number): string => `span[data-wuic-attrs^="page:${page}"] a`,
+  },
+};
@@ -0,0 +1,121 @@
+/**
+ * 가격 업데이트 안전 장치
+ *
+ * 비율은 0~1 사이 값이며(0.3 = 30%), 0 또는 null인 항목은 적용하지 않습니다.
+ */
+export interface PriceGuardrails {
+  /** 현재 가격 대비 최대 인하율 */
+  maxDropRate: number | null;
+  /** 현재 가격 대비 최대 인상률 */
+  maxRiseRate: number | null;
+  /** 최저 판매가 */
+  minPrice: number | null;
+  /** 한 번의 실행에서 변경할 수 있는 최대 아이템 수 */
+  maxChangesPerRun: number | null;
+  /** 서킷 브레이커: 허용하는 API 실패율 */
+  breakerFailureRate: number | null;
+  /** 서킷 브레이커: 허용하는 안전 장치 거부율 */
+  breakerRejectionRate: number | null;
+  /** 서킷 브레이커: 실패율/거부율을 판단하기 위한 최소 처리 건수 */
+  breakerMinSamples: number;
+}
+
+export type PriceGuardrailRejectionCode =
+  | 'INVALID_PRICE'
+  | 'BELOW_MIN_PRICE'
+  | 'DROP_TOO_LARGE'
+  | 'RISE_TOO_LARGE'
+  | 'MAX_CHANGES_EXCEEDED';
+
+export interface PriceGuardrailRejection {
+  code: PriceGuardrailRejectionCode;
+  message: string;
+}
+
+export const DEFAULT_PRICE_GUARDRAILS: PriceGuardrails = {
+  maxDropRate: 0.3,
+  maxRiseRate: 0.5,
+  minPrice: 1000,
+  maxChangesPerRun: 1000,
+  breakerFailureRate: 0.3,
+  breakerRejectionRate: 0.3,
+  breakerMinSamples: 20,
+};
+
+/**
+ * 아이템 한 건의 가격 변경이 안전 장치를 통과하는지 확인
+ *
+ * @param currentPrice - 현재 판매가
+ * @param newPrice - 변경할 판매가
+ * @param guardrails - 가격 업데이트 안전 장치
+ * @returns {PriceGuardrailRejection | null} - 통과하면 null, 아니면 거부 사유
+ */
+export const checkPriceGuardrails = (
+  currentPrice: number,
+  newPrice: number,
+  guardrails: PriceGuardrails,
+): PriceGuardrailRejection | null => {
+  if (!Number.isFinite(newPrice) || newPrice <= 0) {
+    return { code: 'INVALID_PRICE', message: `유효하지 않은 가격입니다: ${newPrice}` };
+  }
+
+  if (guardrails.minPrice && newPrice < guardrails.minPrice) {
+    return {
+      code: 'BELOW_MIN_PRICE',
+      message: `최저 판매가(${guardrails.minPrice}원) 미만입니다: ${newPrice}원`,
+    };
+  }
+
+  // 현재 가격을 모르면 변경률 검사는 건너뜀
+  if (!currentPrice) return null;
+
+  const changeRate = (newPrice - currentPrice) / currentPrice;
+
+  if (guardrails.maxDropRate && -changeRate > guardrails.maxDropRate) {
+    return {
+      code: 'DROP_TOO_LARGE',
+      message: `인하율 ${(-changeRate * 100).toFixed(1)}%가 허용치 ${guardrails.maxDropRate * 100}%를 넘습니다`,
+    };
+  }
+
+  if (guardrails.maxRiseRate && changeRate > guardrails.maxRiseRate) {
+    return {
+      code: 'RISE_TOO_LARGE',
+      message: `인상률 ${(changeRate * 100).toFixed(1)}%가 허용치 ${guardrails.maxRiseRate * 100}%를 넘습니다`,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * 서킷 브레이커 작동 여부 확인
+ *
+ * @param counts - 지금까지 처리한 건수 (attempted: API 호출, failed: API 실패, rejected: 안전 장치 거부, 최대 변경 건수 초과 제외)
+ * @param guardrails - 가격 업데이트 안전 장치
+ * @returns {string | null} - 중단해야 하면 사유, 아니면 null
+ */
+export const checkPriceCircuitBreaker = (
+  counts: { attempted: number; failed: number; rejected: number },
+  guardrails: PriceGuardrails,
+): string | null => {
+  const processed = counts.attempted + counts.rejected;
+
+  if (
+    guardrails.breakerFailureRate &&
+    counts.attempted >= guardrails.breakerMinSamples &&
+    counts.failed / counts.attempted > guardrails.breakerFailureRate
+  ) {
+    return `API 실패율 ${((counts.failed / counts.attempted) * 100).toFixed(1)}%가 허용치 ${guardrails.breakerFailureRate * 100}%를 넘었습니다`;
+  }
+
+  if (
+    guardrails.breakerRejectionRate &&
+    processed >= guardrails.breakerMinSamples &&
+    counts.rejected / processed > guardrails.breakerRejectionRate
+  ) {
+    return `안전 장치 거부율 ${((counts.rejected / processed) * 100).toFixed(1)}%가 허용치 ${guardrails.breakerRejectionRate * 100}%를 넘었습니다`;
+  }
+
+  return null;
+};
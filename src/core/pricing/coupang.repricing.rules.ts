@@ -0,0 +1,94 @@
+import { CoupangComparisonEntity } from '../../infrastructure/entities/coupangComparison.entity';
+import { RepricingDecision, RepricingRules } from '../types/coupangRepricing.types';
+
+export const DEFAULT_REPRICING_RULES: RepricingRules = {
+  undercutAmount: 10,
+  floorPrice: null,
+  ceilingPrice: null,
+  maxDecreaseRate: 0.2,
+  includeShippingFee: true,
+  priceUnit: 10,
+  allowIncrease: false,
+};
+
+/**
+ * 비교 데이터의 금액 컬럼(정수, 원)을 계산용 값으로 변환 (값이 없으면 0)
+ */
+const priceOrZero = (value: number | null | undefined): number => value ?? 0;
+
+const roundDown = (price: number, unit: number) => Math.floor(price / unit) * unit;
+const roundUp = (price: number, unit: number) => Math.ceil(price / unit) * unit;
+
+/**
+ * 비교 데이터 한 건에 규칙을 적용해 새 가격을 결정
+ *
+ * @param comparison - 가격 비교 데이터 (coupang_comparison)
+ * @param rules - 가격 재조정 규칙
+ * @returns {RepricingDecision} - 변경할 가격 또는 변경하지 않는 사유
+ *
+ * @description
+ * 1. 이미 위너이거나 가격 정보가 없으면 변경하지 않음
+ * 2. 위너의 실결제 금액(가격 - 쿠폰 + 배송비)에서 undercutAmount와 내 배송비를 뺀 금액을 목표가로 사용
+ * 3. 목표가를 가격 단위로 내림한 뒤 최대 인하율, floor, ceiling 순으로 제한
+ * 4. 제한된 가격이 현재 가격과 같으면 변경하지 않음
+ * 5. 제한된 가격이 현재 가격보다 높으면 allowIncrease가 true일 때만 변경
+ *    (위너가 아니지만 이미 위너 가격 - undercutAmount보다 싼 경우 가격을 올리지 않음)
+ */
+export const decideRepricing = (
+  comparison: CoupangComparisonEntity,
+  rules: RepricingRules,
+): RepricingDecision => {
+  const unit = rules.priceUnit > 0 ? rules.priceUnit : 1;
+  const currentPrice = priceOrZero(comparison.currentPrice);
+  const winnerPrice = priceOrZero(comparison.winnerPrice);
+  const winnerTotalPrice = rules.includeShippingFee
+    ? winnerPrice - priceOrZero(comparison.winnerCoupon) + priceOrZero(comparison.winnerShippingFee)
+    : winnerPrice;
+
+  const decision: RepricingDecision = {
+    vendorItemId: comparison.vendorItemId,
+    productName: comparison.productName,
+    currentPrice: currentPrice,
+    winnerPrice: winnerPrice,
+    winnerTotalPrice: winnerTotalPrice,
+    newPrice: null,
+    action: 'skip',
+    appliedRule: null,
+    skipReason: null,
+  };
+
+  if (comparison.winnerStatus) return { ...decision, skipReason: 'ALREADY_WINNER' };
+  if (currentPrice <= 0 || winnerPrice <= 0) return { ...decision, skipReason: 'INVALID_PRICE' };
+
+  const myShippingFee = rules.includeShippingFee ? priceOrZero(comparison.currentShippingFee) : 0;
+  let newPrice = roundDown(winnerTotalPrice - rules.undercutAmount - myShippingFee, unit);
+  let appliedRule: RepricingDecision['appliedRule'] = 'UNDERCUT';
+
+  const minPriceByRate = roundUp(currentPrice * (1 - rules.maxDecreaseRate), unit);
+  if (newPrice < minPriceByRate) {
+    newPrice = minPriceByRate;
+    appliedRule = 'MAX_DECREASE';
+  }
+
+  if (rules.floorPrice && newPrice < rules.floorPrice) {
+    newPrice = roundUp(rules.floorPrice, unit);
+    appliedRule = 'FLOOR';
+  }
+
+  if (rules.ceilingPrice && newPrice > rules.ceilingPrice) {
+    newPrice = roundDown(rules.ceilingPrice, unit);
+    appliedRule = 'CEILING';
+  }
+
+  if (newPrice === currentPrice) {
+    const skipReason =
+      appliedRule === 'FLOOR' ? 'AT_FLOOR' : appliedRule === 'CEILING' ? 'AT_CEILING' : 'NO_CHANGE';
+    return { ...decision, appliedRule: appliedRule, skipReason: skipReason };
+  }
+
+  if (newPrice > currentPrice && !rules.allowIncrease) {
+    return { ...decision, appliedRule: appliedRule, skipReason: 'INCREASE_NOT_ALLOWED' };
+  }
+
+  return { ...decision, newPrice: newPrice, action: 'update', appliedRule: appliedRule };
+};
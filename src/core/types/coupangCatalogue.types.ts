@@ -0,0 +1,34 @@
+/**
+ * 카탈로그 변경 유형
+ *
+ * NEW: 새로 등록되었거나 삭제 후 다시 조회된 상품, REMOVED: 이번 동기화에서 조회되지 않은 상품,
+ * RENAMED: 상품명 변경, STATUS_CHANGED: 상품 상태(statusName) 변경
+ */
+export type CatalogueChangeType = 'NEW' | 'REMOVED' | 'RENAMED' | 'STATUS_CHANGED';
+
+/**
+ * 직전 동기화 대비 판매자 상품 변경 내역
+ *
+ * before/after는 RENAMED이면 상품명, STATUS_CHANGED이면 상품 상태입니다.
+ */
+export interface CatalogueChange {
+  type: CatalogueChangeType;
+  sellerProductId: string;
+  sellerProductName: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * 카탈로그 동기화 결과
+ */
+export interface CatalogueSyncSummary {
+  syncRunId: string;
+  productCount: number;
+  /** 상세 조회로 아이템(옵션)을 갱신한 상품 수 */
+  itemsRefreshed: number;
+  /** 상세 조회에 실패해 아이템을 갱신하지 못한 상품 수 */
+  itemsFailed: number;
+  changes: CatalogueChange[];
+  filePath: string | null;
+}
@@ -0,0 +1,58 @@
+/**
+ * 아이템 위너 변동 이벤트
+ *
+ * WINNER_LOST: 직전 스냅샷에서 위너였다가 위너를 잃은 아이템
+ * WINNER_REGAINED: 직전 스냅샷에서 위너가 아니었다가 위너를 되찾은 아이템
+ */
+export interface WinnerChangeEvent {
+  type: 'WINNER_LOST' | 'WINNER_REGAINED';
+  vendorItemId: number;
+  productName: string;
+  crawlRunId: string;
+  previousCrawlRunId: string;
+  /** 현재 위너 판매자 ID (위너를 되찾았으면 내 판매자 ID) */
+  winnerVendorId: string;
+  winnerPrice: number | null;
+  currentPrice: number | null;
+  /** 현재 위너와 나의 가격차 */
+  priceGap: number | null;
+  /** 최근 7일 매출 (알림 우선순위 기준) */
+  myRecentGmv: number;
+}
+
+/**
+ * 경쟁 판매자 집계 (내 아이템의 위너인 판매자 기준)
+ */
+export interface CompetitorSummary {
+  winnerVendorId: string;
+  /** 위너를 차지한 내 아이템 수 */
+  itemCount: number;
+  /** 나와의 평균/중앙 가격차 */
+  avgPriceGap: number | null;
+  medianPriceGap: number | null;
+  avgShippingFee: number | null;
+  /** 무료배송 비율 (0~1) */
+  freeShippingRate: number;
+  /** 위너를 빼앗긴 아이템의 최근 7일 매출 합계 */
+  lostGmv: number;
+}
+
+/**
+ * 크롤링 실행별 경쟁 판매자의 위너 아이템 수
+ */
+export interface CompetitorTrendPoint {
+  crawlRunId: string;
+  crawledAt: Date;
+  winnerVendorId: string;
+  itemCount: number;
+}
+
+/**
+ * 경쟁 판매자 분석 결과 (스냅샷이 없으면 crawlRunId, filePath는 null)
+ */
+export interface CompetitorAnalytics {
+  crawlRunId: string | null;
+  competitors: CompetitorSummary[];
+  trend: CompetitorTrendPoint[];
+  filePath: string | null;
+}
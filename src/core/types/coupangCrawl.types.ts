@@ -0,0 +1,38 @@
+/**
+ * 크롤링 중 파싱하지 못해 제외한 행
+ *
+ * raw는 원본 행의 HTML 또는 JSON 일부(최대 2000자)이며, rowIndex는 페이지 안에서의 순서입니다.
+ */
+export interface CrawlRejectedRow {
+  page: number;
+  rowIndex: number;
+  reason: string;
+  raw: string;
+}
+
+/**
+ * 크롤링한 페이지 하나의 행 단위 결과
+ */
+export interface CrawlPageResult<T> {
+  rows: T[];
+  rejected: CrawlRejectedRow[];
+}
+
+/**
+ * 제외한 행을 수집한 크롤러 구분
+ */
+export type CrawlRejectedRowSource = 'product-detail' | 'non-conforming';
+
+/**
+ * 상품 상세 크롤링 실행 요약
+ *
+ * 체크포인트에서 이어서 크롤링한 경우에도 같은 실행(crawlRunId)의 전체 건수입니다.
+ * missingSkipped는 저장한 상품이 없거나 너무 적어 사라진 상품 표시를 건너뛰었는지 여부입니다.
+ */
+export interface ProductCrawlSummary {
+  crawlRunId: string;
+  savedCount: number;
+  rejectedCount: number;
+  missingCount: number;
+  missingSkipped: boolean;
+}
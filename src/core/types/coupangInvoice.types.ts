@@ -0,0 +1,96 @@
+import { CoupangInvoice, InvoiceUploadResult } from '@daechanjo/models';
+
+/**
+ * 송장 업로드 대상 아이템
+ *
+ * splitShipping, preSplitShipped, estimatedShippingDate를 지정하지 않으면 송장 단위 값을 따릅니다.
+ */
+export interface CoupangInvoiceItem {
+  vendorItemId: number;
+  /** 분리배송 여부 */
+  splitShipping?: boolean;
+  /** 같은 발주서에서 이미 분리배송된 아이템이 있는지 여부 */
+  preSplitShipped?: boolean;
+  /** 분리배송 시 출고예정일 (yyyy-MM-dd) */
+  estimatedShippingDate?: string;
+}
+
+/**
+ * 다중 아이템, 분리배송을 지원하는 송장 업로드 요청
+ */
+export type CoupangInvoiceUpload = CoupangInvoice & {
+  items: CoupangInvoiceItem[];
+  splitShipping?: boolean;
+  preSplitShipped?: boolean;
+  estimatedShippingDate?: string;
+};
+
+/**
+ * 쿠팡 송장 업로드 API의 orderSheetInvoiceApplyDtos 항목
+ */
+export interface CoupangInvoiceApplyDto {
+  shipmentBoxId: number;
+  orderId: number;
+  deliveryCompanyCode: string;
+  invoiceNumber: string;
+  vendorItemId: number;
+  splitShipping: boolean;
+  preSplitShipped: boolean;
+  estimatedShippingDate: string;
+}
+
+/**
+ * 아이템 단위 송장 처리 결과 (API 응답의 responseList 항목과 대응)
+ */
+export interface InvoiceItemOutcome {
+  shipmentBoxId: number;
+  vendorItemId: number;
+  succeed: boolean;
+  resultCode: string;
+  resultMessage: string;
+  retryRequired: boolean;
+}
+
+/**
+ * 아이템 단위 송장 업로드 결과
+ *
+ * already_uploaded는 이전 요청에서 같은 운송장 번호로 업로드가 완료되어 전송하지 않은 줄입니다.
+ */
+export type InvoiceItemUploadResult = Omit<InvoiceUploadResult, 'status'> & {
+  status: 'success' | 'failed' | 'already_uploaded';
+  shipmentBoxId: number;
+  vendorItemId: number;
+  resultCode?: string;
+};
+
+export interface InvoiceNumber {
+  deliveryCompanyCode: string;
+  invoiceNumber: string;
+}
+
+/**
+ * 이미 업로드된 송장의 정정 요청
+ *
+ * orderId를 생략하면 로컬 주문 테이블에서 shipmentBoxId로 조회합니다.
+ */
+export interface InvoiceCorrection {
+  shipmentBoxId: number;
+  vendorItemId: number;
+  orderId?: number;
+  oldInvoice: InvoiceNumber;
+  newInvoice: InvoiceNumber;
+}
+
+/**
+ * 송장 정정 결과 (정정 요청 한 줄마다 하나)
+ */
+export interface InvoiceCorrectionResult {
+  shipmentBoxId: number;
+  vendorItemId: number;
+  orderId: number | null;
+  oldInvoice: InvoiceNumber;
+  newInvoice: InvoiceNumber;
+  status: 'success' | 'failed' | 'skipped';
+  resultCode?: string;
+  error: string;
+}
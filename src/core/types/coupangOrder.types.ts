@@ -0,0 +1,83 @@
+/**
+ * 쿠팡 발주서 상태
+ *
+ * ACCEPT: 결제완료, INSTRUCT: 상품준비중, DEPARTURE: 배송지시,
+ * DELIVERING: 배송중, FINAL_DELIVERY: 배송완료, NONE_TRACKING: 업체 직접 배송(추적불가)
+ */
+export type CoupangOrderSheetStatus =
+  'ACCEPT' | 'INSTRUCT' | 'DEPARTURE' | 'DELIVERING' | 'FINAL_DELIVERY' | 'NONE_TRACKING';
+
+export interface CoupangOrderSheetItem {
+  vendorItemPackageId: number;
+  vendorItemPackageName: string;
+  productId: number;
+  vendorItemId: number;
+  vendorItemName: string;
+  shippingCount: number;
+  salesPrice: number;
+  orderPrice: number;
+  discountPrice: number;
+  externalVendorSkuCode: string;
+  sellerProductId: number;
+  sellerProductName: string;
+  sellerProductItemName: string;
+  cancelCount: number;
+  holdCountForCancel: number;
+  estimatedShippingDate: string;
+  plannedShippingDate: string;
+  invoiceNumberUploadDate: string | null;
+  confirmDate: string | null;
+  canceled: boolean;
+}
+
+export interface CoupangOrderSheet {
+  shipmentBoxId: number;
+  orderId: number;
+  orderedAt: string;
+  paidAt: string;
+  status: CoupangOrderSheetStatus;
+  shippingPrice: number;
+  remotePrice: number;
+  remoteArea: boolean;
+  parcelPrintMessage: string | null;
+  splitShipping: boolean;
+  ableSplitShipping: boolean;
+  orderer: {
+    name: string;
+    email: string;
+    safeNumber: string;
+    ordererNumber: string | null;
+  };
+  receiver: {
+    name: string;
+    safeNumber: string;
+    receiverNumber: string | null;
+    addr1: string;
+    addr2: string;
+    postCode: string;
+  };
+  orderItems: CoupangOrderSheetItem[];
+  deliveryCompanyName: string | null;
+  invoiceNumber: string | null;
+  inTrasitDateTime: string | null;
+  deliveredDate: string | null;
+  refer: string;
+  shipmentType: string;
+}
+
+export interface OrderAcknowledgementFailure {
+  shipmentBoxId: number;
+  resultCode: string;
+  resultMessage: string;
+}
+
+/**
+ * 발주서 주문 확인(상품준비중 처리) 결과
+ *
+ * retryable은 쿠팡이 재시도를 요청했거나 일시적인 오류로 처리되지 않은 발주서입니다.
+ */
+export interface OrderAcknowledgementResult {
+  succeeded: number[];
+  failed: OrderAcknowledgementFailure[];
+  retryable: OrderAcknowledgementFailure[];
+}
@@ -0,0 +1,53 @@
+/**
+ * 가격 변경 미리보기 항목
+ *
+ * reason은 가격 재조정 규칙(UNDERCUT, FLOOR 등)이며, 외부 서비스가 저장한 가격은 EXTERNAL입니다.
+ */
+export interface PricePreviewItem {
+  vendorItemId: number;
+  productName: string;
+  oldPrice: number;
+  newPrice: number;
+  delta: number;
+  /** 변경률 (%) */
+  changeRate: number;
+  winnerPrice: number;
+  reason: string;
+}
+
+export interface PricePreview {
+  previewId: string;
+  jobId: string;
+  itemCount: number;
+  items: PricePreviewItem[];
+  filePath: string;
+}
+
+/**
+ * 가격 롤백 결과
+ *
+ * skipped는 롤백 대상 실행 이후 가격이 다시 변경되어 되돌리지 않은 아이템입니다.
+ */
+export interface PriceRollbackResult {
+  vendorItemId: number;
+  fromPrice: number;
+  restoredPrice: number;
+  status: 'success' | 'failed' | 'skipped';
+  error: string;
+}
+
+/**
+ * 가격 업데이트 실행의 아이템별 결과
+ *
+ * rejected는 안전 장치에서 거부되어 전송하지 않은 아이템, aborted는 서킷 브레이커 작동으로 처리하지 않은 아이템입니다.
+ */
+export interface PriceUpdateItemResult {
+  vendorItemId: number;
+  productName: string;
+  winnerPrice: number;
+  currentPrice: number;
+  sellerPrice: number | null;
+  newPrice: number;
+  status: 'success' | 'failed' | 'rejected' | 'aborted';
+  reason: string;
+}
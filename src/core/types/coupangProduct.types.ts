@@ -0,0 +1,75 @@
+import { CoupangProduct } from '@daechanjo/models';
+
+/**
+ * 윙 판매자 인벤토리 목록 응답의 아이템(옵션)
+ */
+export interface CoupangInventoryItem {
+  vendorItemId: number;
+  optionName: string;
+  price: number | null;
+  shippingCost: number;
+  stock: number | null;
+  /** 판매 상태 (ON_SALE, SUSPENDED 등 윙 응답 값) */
+  status: string | null;
+  isWinner: boolean;
+}
+
+/**
+ * 윙 판매자 인벤토리 목록에서 수집한 상품
+ *
+ * price, shippingCost, isWinner는 대표 아이템(첫 번째 아이템) 기준이며, 아이템별 값은 items에 있습니다.
+ * productCode는 대표 아이템의 externalVendorSkuCode이며, 없으면 null입니다.
+ */
+export interface CoupangInventoryProduct {
+  sellerProductId: string;
+  sellerProductName: string;
+  productCode: string | null;
+  isWinner: boolean;
+  price: number | null;
+  shippingCost: number;
+  status: string | null;
+  items: CoupangInventoryItem[];
+}
+
+/**
+ * 쿠팡 판매자 상품 상태
+ *
+ * IN_REVIEW: 심사중, SAVED: 임시저장, APPROVING: 승인대기중, APPROVED: 승인완료,
+ * PARTIAL_APPROVED: 부분승인완료, DENIED: 승인반려, DELETED: 상품삭제
+ */
+export type CoupangSellerProductStatus =
+  'IN_REVIEW' | 'SAVED' | 'APPROVING' | 'APPROVED' | 'PARTIAL_APPROVED' | 'DENIED' | 'DELETED';
+
+/**
+ * 판매자 상품 목록 조회 조건
+ *
+ * status를 생략하면 승인완료(APPROVED) 상품만, 'ALL'이면 상태와 관계없이 조회합니다.
+ * 여러 상태를 배열로 지정하면 상태별로 조회한 뒤 합칩니다.
+ */
+export interface CoupangProductListFilter {
+  status?: CoupangSellerProductStatus | CoupangSellerProductStatus[] | 'ALL';
+  /** 상품 등록일 (yyyy-MM-dd) */
+  createdAt?: string;
+  /** 등록상품명 (부분 일치) */
+  sellerProductName?: string;
+}
+
+/**
+ * 판매자 상품 상태 변경 이력 (반려 사유는 comment에 있음)
+ */
+export interface CoupangSellerProductHistory {
+  status: string;
+  statusName: string;
+  createdAt: string;
+  createdBy: string;
+  comment: string | null;
+}
+
+/**
+ * 목록 API로 조회한 판매자 상품
+ *
+ * 승인반려, 부분승인완료 상품은 상태 변경 이력의 반려 사유가 rejectionReason에 담깁니다.
+ */
+export type CoupangListedProduct = CoupangProduct & {
+  rejectionReason?: string | null;
+};
@@ -0,0 +1,54 @@
+/**
+ * 가격 재조정 규칙
+ *
+ * 모든 금액은 원 단위이며, 0 또는 null인 floorPrice/ceilingPrice는 적용하지 않습니다.
+ */
+export interface RepricingRules {
+  /** 위너 가격보다 낮출 금액 */
+  undercutAmount: number;
+  /** 이 가격 미만으로는 내리지 않음 */
+  floorPrice: number | null;
+  /** 이 가격을 넘겨서 올리지 않음 */
+  ceilingPrice: number | null;
+  /** 현재 가격 대비 최대 인하율 (0.2 = 20%) */
+  maxDecreaseRate: number;
+  /** 배송비와 쿠폰을 포함한 최종 결제 금액 기준으로 비교할지 여부 */
+  includeShippingFee: boolean;
+  /** 가격 단위 (쿠팡은 10원 단위만 허용) */
+  priceUnit: number;
+  /** 계산된 가격이 현재 가격보다 높을 때 인상을 허용할지 여부 (기본값: false) */
+  allowIncrease: boolean;
+}
+
+export type RepricingSkipReason =
+  | 'ALREADY_WINNER'
+  | 'INVALID_PRICE'
+  | 'NO_CHANGE'
+  | 'AT_FLOOR'
+  | 'AT_CEILING'
+  | 'INCREASE_NOT_ALLOWED';
+
+/**
+ * 비교 데이터 한 건에 대한 가격 결정
+ */
+export interface RepricingDecision {
+  vendorItemId: number;
+  productName: string;
+  currentPrice: number;
+  winnerPrice: number;
+  /** 비교에 사용한 위너의 실결제 금액 (배송비, 쿠폰 반영 여부는 규칙을 따름) */
+  winnerTotalPrice: number;
+  newPrice: number | null;
+  action: 'update' | 'skip';
+  /** 조정 사유 (floor, ceiling, maxDecreaseRate 적용 시 해당 규칙) */
+  appliedRule: 'UNDERCUT' | 'FLOOR' | 'CEILING' | 'MAX_DECREASE' | null;
+  skipReason: RepricingSkipReason | null;
+}
+
+export interface RepricingRunSummary {
+  jobId: string;
+  total: number;
+  updated: number;
+  skipped: number;
+  skipReasons: Partial<Record<RepricingSkipReason, number>>;
+}
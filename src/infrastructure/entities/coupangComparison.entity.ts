@@ -1,16 +1,29 @@
-import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn } from 'typeorm';
-
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 가격 비교 크롤링 스냅샷
+ *
+ * 크롤링 실행(crawlRunId)마다 아이템별 한 줄씩 저장하며, 보관 기간이 지난 실행은 삭제합니다.
+ * 금액은 원 단위 정수로 저장합니다.
+ */
 @Entity({ name: 'coupang_comparison' })
+@Index(['crawlRunId', 'vendorItemId'], { unique: true })
 export class CoupangComparisonEntity {
   @PrimaryGeneratedColumn()
   id: number;
 
+  // 크롤링 실행 ID (가격 비교 크롤링 작업의 jobId)
+  @Index()
+  @Column({ name: 'crawl_run_id', type: 'varchar' })
+  crawlRunId: string;
+
   @Column({ name: 'product_id', type: 'bigint' })
   productId: number;
 
   @Column({ name: 'vendor_inventory_id', type: 'bigint' })
   vendorInventoryId: number;
 
+  @Index()
   @Column({ name: 'vendor_item_id', type: 'bigint' })
   vendorItemId: number;
 
@@ -24,8 +37,8 @@ export class CoupangComparisonEntity {
   winnerStatus: boolean;
 
   // 현재 위너와 나의 가격차
-  @Column({ name: 'price_gap_with_winner_product', type: 'varchar' })
-  priceGapWithWinnerProduct: string;
+  @Column({ name: 'price_gap_with_winner_product', type: 'int', nullable: true })
+  priceGapWithWinnerProduct: number | null;
 
   @Column({ name: 'winner_vendor_item_id', type: 'bigint' })
   winnerVendorItemId: number;
@@ -34,31 +47,31 @@ export class CoupangComparisonEntity {
   winnerVendorId: string;
 
   // 현재 위너인 아이템 가격
-  @Column({ name: 'winner_price', type: 'varchar' })
-  winnerPrice: string;
+  @Column({ name: 'winner_price', type: 'int', nullable: true })
+  winnerPrice: number | null;
 
-  @Column({ name: 'winner_final_price', type: 'varchar' })
-  winnerFinalPrice: string;
+  @Column({ name: 'winner_final_price', type: 'int', nullable: true })
+  winnerFinalPrice: number | null;
 
-  @Column({ name: 'winner_shipping_fee', type: 'varchar' })
-  winnerShippingFee: string;
+  @Column({ name: 'winner_shipping_fee', type: 'int', nullable: true })
+  winnerShippingFee: number | null;
 
-  @Column({ name: 'winner_coupon', type: 'varchar' })
-  winnerCoupon: string;
+  @Column({ name: 'winner_coupon', type: 'int', nullable: true })
+  winnerCoupon: number | null;
 
   // 현재 내 가격
-  @Column({ name: 'current_price', type: 'varchar' })
-  currentPrice: string;
+  @Column({ name: 'current_price', type: 'int', nullable: true })
+  currentPrice: number | null;
 
-  @Column({ name: 'current_final_price', type: 'varchar' })
-  currentFinalPrice: string;
+  @Column({ name: 'current_final_price', type: 'int', nullable: true })
+  currentFinalPrice: number | null;
 
-  @Column({ name: 'current_shipping_fee', type: 'varchar' })
-  currentShippingFee: string;
+  @Column({ name: 'current_shipping_fee', type: 'int', nullable: true })
+  currentShippingFee: number | null;
 
   // 추천가
-  @Column({ name: 'recommend_price', type: 'varchar' })
-  recommendPrice: string;
+  @Column({ name: 'recommend_price', type: 'int', nullable: true })
+  recommendPrice: number | null;
 
   @Column({ name: 'recommend_unit_price_num', type: 'varchar' })
   recommendUnitPriceNum: string;
@@ -66,19 +79,19 @@ export class CoupangComparisonEntity {
   @Column({ name: 'recommend_unit_price_unit', type: 'varchar' })
   recommendUnitPriceUnit: string;
 
-  @Column({ name: 'recommend_final_price', type: 'varchar' })
-  recommendFinalPrice: string;
+  @Column({ name: 'recommend_final_price', type: 'int', nullable: true })
+  recommendFinalPrice: number | null;
 
   // 잠재가?
   @Column({ name: 'potential_sales', type: 'varchar' })
   potentialSales: string;
 
   // 7일간 판매내역
-  @Column({ name: 'my_recent_sales', type: 'varchar' })
-  myRecentSales: string;
+  @Column({ name: 'my_recent_sales', type: 'int', nullable: true })
+  myRecentSales: number | null;
 
-  @Column({ name: 'my_recent_gmv', type: 'varchar' })
-  myRecentGmv: string;
+  @Column({ name: 'my_recent_gmv', type: 'bigint', nullable: true })
+  myRecentGmv: number | null;
 
   // 온채널 상품코드
   @Column({ name: 'external_vendor_sku_code', type: 'varchar' })
@@ -0,0 +1,34 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 가격 비교 크롤링 실행 기록
+ *
+ * 위너 상태별 크롤링(crawlRunId + winnerStatus)마다 한 줄씩 기록하며,
+ * 모든 페이지를 수집한 실행만 COMPLETED가 됩니다. 최신 스냅샷은 완료된 실행에서만 선택합니다.
+ */
+@Entity({ name: 'coupang_comparison_run' })
+@Index(['crawlRunId', 'winnerStatus'], { unique: true })
+export class CoupangComparisonRunEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // 크롤링 실행 ID (가격 비교 크롤링 작업의 jobId)
+  @Column({ name: 'crawl_run_id', type: 'varchar' })
+  crawlRunId: string;
+
+  // 크롤링한 위너 상태 (WIN_NOT_SUPPRESSED, LOSE_NOT_SUPPRESSED 등)
+  @Column({ name: 'winner_status', type: 'varchar', length: 50 })
+  winnerStatus: string;
+
+  // RUNNING: 수집 중, COMPLETED: 모든 페이지 수집 완료, FAILED: 수집 실패 (같은 jobId로 재시도 가능)
+  @Index()
+  @Column({ name: 'status', type: 'varchar', length: 20, default: 'RUNNING' })
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+  @Index()
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
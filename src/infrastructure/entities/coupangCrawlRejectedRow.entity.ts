@@ -0,0 +1,35 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 크롤링 중 파싱하지 못해 제외한 행
+ *
+ * 같은 크롤링 실행을 체크포인트에서 재시도해도 한 행은 한 번만 기록됩니다.
+ */
+@Entity({ name: 'coupang_crawl_rejected_row' })
+@Index(['crawlRunId', 'source', 'page', 'rowIndex'], { unique: true })
+export class CoupangCrawlRejectedRowEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'crawl_run_id', type: 'varchar' })
+  crawlRunId: string;
+
+  // 상품 상세(product-detail) 또는 비준수 상품(non-conforming)
+  @Column({ name: 'source', type: 'varchar', length: 30 })
+  source: string;
+
+  @Column({ name: 'page', type: 'int' })
+  page: number;
+
+  @Column({ name: 'row_index', type: 'int' })
+  rowIndex: number;
+
+  @Column({ name: 'reason', type: 'varchar', length: 255 })
+  reason: string;
+
+  @Column({ name: 'raw', type: 'text', nullable: true })
+  raw: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
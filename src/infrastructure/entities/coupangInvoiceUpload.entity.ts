@@ -0,0 +1,54 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * 쿠팡 송장 업로드 기록
+ *
+ * 같은 발주서, 아이템, 운송장 번호 조합은 한 번만 기록되며 재요청 시 중복 업로드를 막는 데 사용합니다.
+ * 업로드 전에 PENDING으로 선점하고, API 결과에 따라 SUCCEEDED 또는 FAILED로 변경합니다.
+ */
+@Entity({ name: 'coupang_invoice_upload' })
+@Index(['shipmentBoxId', 'vendorItemId', 'invoiceNumber'], { unique: true })
+export class CoupangInvoiceUploadEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'shipment_box_id', type: 'bigint' })
+  shipmentBoxId: number;
+
+  @Column({ name: 'vendor_item_id', type: 'bigint' })
+  vendorItemId: number;
+
+  @Column({ name: 'invoice_number', type: 'varchar', length: 50 })
+  invoiceNumber: string;
+
+  @Index()
+  @Column({ name: 'order_id', type: 'bigint' })
+  orderId: number;
+
+  @Column({ name: 'delivery_company_code', type: 'varchar', length: 20 })
+  deliveryCompanyCode: string;
+
+  // 최초 업로드(upload)인지 송장 정정(correction)인지 구분
+  @Column({ name: 'source', type: 'varchar', length: 20, default: 'upload' })
+  source: string;
+
+  // PENDING: 업로드 중(또는 결과 미확인), SUCCEEDED: 업로드 완료, FAILED: 업로드 실패(재시도 가능)
+  @Column({ name: 'status', type: 'varchar', length: 20, default: 'SUCCEEDED' })
+  status: 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+  @Column({ name: 'cron_id', type: 'varchar', nullable: true })
+  cronId: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,66 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+import { CoupangOrderItemEntity } from './coupangOrderItem.entity';
+
+@Entity({ name: 'coupang_order' })
+export class CoupangOrderEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // 쿠팡 발주서 단위 식별자
+  @Index({ unique: true })
+  @Column({ name: 'shipment_box_id', type: 'bigint' })
+  shipmentBoxId: number;
+
+  @Index()
+  @Column({ name: 'order_id', type: 'bigint' })
+  orderId: number;
+
+  @Index()
+  @Column({ type: 'varchar', length: 50 })
+  status: string;
+
+  @Column({ name: 'ordered_at', type: 'timestamp', nullable: true })
+  orderedAt: Date;
+
+  @Column({ name: 'paid_at', type: 'timestamp', nullable: true })
+  paidAt: Date;
+
+  @Column({ name: 'orderer_name', type: 'varchar', length: 100, nullable: true })
+  ordererName: string;
+
+  @Column({ name: 'receiver_name', type: 'varchar', length: 100, nullable: true })
+  receiverName: string;
+
+  @Column({ name: 'receiver_safe_number', type: 'varchar', length: 50, nullable: true })
+  receiverSafeNumber: string;
+
+  @Column({ name: 'receiver_address', type: 'varchar', length: 500, nullable: true })
+  receiverAddress: string;
+
+  @Column({ name: 'shipping_price', type: 'int', default: 0 })
+  shippingPrice: number;
+
+  @Column({ name: 'delivery_company_name', type: 'varchar', length: 100, nullable: true })
+  deliveryCompanyName: string;
+
+  @Column({ name: 'invoice_number', type: 'varchar', length: 100, nullable: true })
+  invoiceNumber: string;
+
+  @OneToMany(() => CoupangOrderItemEntity, (item) => item.order, { cascade: true })
+  items: CoupangOrderItemEntity[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,54 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { CoupangOrderEntity } from './coupangOrder.entity';
+
+@Entity({ name: 'coupang_order_item' })
+export class CoupangOrderItemEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => CoupangOrderEntity, (order) => order.items, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'order_id' })
+  order: CoupangOrderEntity;
+
+  @Column({ name: 'vendor_item_id', type: 'bigint' })
+  vendorItemId: number;
+
+  @Column({ name: 'seller_product_id', type: 'bigint', nullable: true })
+  sellerProductId: number;
+
+  @Column({ name: 'seller_product_name', type: 'varchar', length: 255, nullable: true })
+  sellerProductName: string;
+
+  @Column({ name: 'vendor_item_name', type: 'varchar', length: 255, nullable: true })
+  vendorItemName: string;
+
+  // 온채널 상품코드
+  @Column({ name: 'external_vendor_sku_code', type: 'varchar', length: 255, nullable: true })
+  externalVendorSkuCode: string;
+
+  @Column({ name: 'shipping_count', type: 'int', default: 0 })
+  shippingCount: number;
+
+  @Column({ name: 'sales_price', type: 'int', default: 0 })
+  salesPrice: number;
+
+  @Column({ name: 'order_price', type: 'int', default: 0 })
+  orderPrice: number;
+
+  @Column({ name: 'cancel_count', type: 'int', default: 0 })
+  cancelCount: number;
+
+  @Column({ type: 'boolean', default: false })
+  canceled: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,24 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity({ name: 'coupang_order_status_history' })
+export class CoupangOrderStatusHistoryEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({ name: 'shipment_box_id', type: 'bigint' })
+  shipmentBoxId: number;
+
+  // 최초 수집된 발주서는 이전 상태가 없음
+  @Column({ name: 'from_status', type: 'varchar', length: 50, nullable: true })
+  fromStatus: string | null;
+
+  @Column({ name: 'to_status', type: 'varchar', length: 50 })
+  toStatus: string;
+
+  @Column({ name: 'cron_id', type: 'varchar', nullable: true })
+  cronId: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,60 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 쿠팡 가격 변경 이력
+ *
+ * 가격 변경 요청마다 한 줄씩 기록하며, 롤백 시 beforePrice를 복원 가격으로 사용합니다.
+ * 반영 검증 결과(재요청 포함)는 새 줄을 추가하지 않고 같은 줄에 기록합니다.
+ */
+@Entity({ name: 'coupang_price_change' })
+export class CoupangPriceChangeEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({ name: 'run_id', type: 'varchar' })
+  runId: string;
+
+  @Index()
+  @Column({ name: 'vendor_item_id', type: 'bigint' })
+  vendorItemId: number;
+
+  @Column({ name: 'before_price', type: 'int' })
+  beforePrice: number;
+
+  @Column({ name: 'after_price', type: 'int' })
+  afterPrice: number;
+
+  // success: 쿠팡 반영 완료, failed: 요청 실패
+  @Column({ name: 'status', type: 'varchar', length: 20 })
+  status: 'success' | 'failed';
+
+  @Column({ name: 'api_response', type: 'text', nullable: true })
+  apiResponse: string | null;
+
+  // update: 가격 업데이트, rollback: 이전 실행의 롤백
+  @Column({ name: 'source', type: 'varchar', length: 20, default: 'update' })
+  source: 'update' | 'rollback';
+
+  // 롤백으로 생성된 이력이면 롤백 대상 실행 ID
+  @Column({ name: 'rollback_of_run_id', type: 'varchar', nullable: true })
+  rollbackOfRunId: string | null;
+
+  // 반영 검증 결과 (verified: 반영 확인, mismatch: 판매가 불일치, error: 조회 실패, null: 검증 전)
+  @Column({ name: 'verification', type: 'varchar', length: 20, nullable: true })
+  verification: 'verified' | 'mismatch' | 'error' | null;
+
+  // 검증 시 조회한 실제 판매가
+  @Column({ name: 'actual_price', type: 'int', nullable: true })
+  actualPrice: number | null;
+
+  // 불일치로 가격 변경을 다시 요청했는지 여부
+  @Column({ name: 'retried', type: 'boolean', default: false })
+  retried: boolean;
+
+  @Column({ name: 'verified_at', type: 'timestamp', nullable: true })
+  verifiedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
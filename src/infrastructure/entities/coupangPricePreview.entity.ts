@@ -0,0 +1,34 @@
+import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { PricePreviewItem } from '../../core/types/coupangPrice.types';
+
+/**
+ * 가격 변경 미리보기
+ *
+ * 미리보기 시점의 변경 내역을 그대로 보관하며, 승인(apply) 시 이 내역만 쿠팡에 반영합니다.
+ */
+@Entity({ name: 'coupang_price_preview' })
+export class CoupangPricePreviewEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // 미리보기 대상 업데이트 아이템의 cronId
+  @Column({ name: 'cron_id', type: 'varchar' })
+  cronId: string;
+
+  // PENDING: 승인 대기, APPLYING: 반영 중, APPLIED: 모두 반영, PARTIALLY_APPLIED: 일부 반영, FAILED: 반영 실패
+  @Column({ name: 'status', type: 'varchar', length: 20, default: 'PENDING' })
+  status: 'PENDING' | 'APPLYING' | 'APPLIED' | 'PARTIALLY_APPLIED' | 'FAILED';
+
+  @Column({ name: 'items', type: 'simple-json' })
+  items: PricePreviewItem[];
+
+  @Column({ name: 'applied_cron_id', type: 'varchar', nullable: true })
+  appliedCronId: string | null;
+
+  @Column({ name: 'applied_at', type: 'timestamp', nullable: true })
+  appliedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -1,10 +1,13 @@
-import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+import { CoupangInventoryItem } from '../../core/types/coupangProduct.types';
 
 @Entity({ name: 'coupang_product' })
 export class CoupangProductEntity {
   @PrimaryGeneratedColumn()
   id: number;
 
+  @Index()
   @Column({ name: 'seller_product_id', type: 'varchar', length: 255, nullable: true })
   sellerProductId: string;
 
@@ -23,6 +26,24 @@ export class CoupangProductEntity {
   @Column({ name: 'shipping_cost', type: 'int', nullable: true })
   shippingCost: number;
 
+  @Column({ name: 'status', type: 'varchar', length: 50, nullable: true })
+  status: string | null;
+
+  // 아이템(옵션)별 vendorItemId, 옵션명, 가격, 재고, 판매 상태
+  @Column({ name: 'items', type: 'simple-json', nullable: true })
+  items: CoupangInventoryItem[] | null;
+
+  // 마지막으로 상품을 수집한 크롤링 실행 ID
+  @Column({ name: 'crawl_run_id', type: 'varchar', nullable: true })
+  crawlRunId: string | null;
+
+  @Column({ name: 'last_seen_at', type: 'timestamp', nullable: true })
+  lastSeenAt: Date | null;
+
+  // 전체 크롤링에서 더 이상 발견되지 않은 시각 (다시 발견되면 null)
+  @Column({ name: 'missing_at', type: 'timestamp', nullable: true })
+  missingAt: Date | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 }
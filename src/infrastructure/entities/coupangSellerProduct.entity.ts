@@ -0,0 +1,75 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+import { CoupangVendorItemEntity } from './coupangVendorItem.entity';
+
+/**
+ * 쿠팡 판매자 상품 카탈로그 (판매자 상품 목록 API 기준)
+ *
+ * 동기화에서 조회되지 않은 상품은 삭제하지 않고 removedAt을 기록합니다.
+ */
+@Entity({ name: 'coupang_seller_product' })
+export class CoupangSellerProductEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index({ unique: true })
+  @Column({ name: 'seller_product_id', type: 'bigint' })
+  sellerProductId: string;
+
+  @Column({ name: 'seller_product_name', type: 'varchar', length: 255, nullable: true })
+  sellerProductName: string;
+
+  @Column({ name: 'product_id', type: 'bigint', nullable: true })
+  productId: string | null;
+
+  @Column({ name: 'display_category_code', type: 'bigint', nullable: true })
+  displayCategoryCode: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  brand: string | null;
+
+  // 쿠팡 상품 상태명 (승인완료, 부분승인완료 등)
+  @Index()
+  @Column({ name: 'status_name', type: 'varchar', length: 50, nullable: true })
+  statusName: string | null;
+
+  // 승인반려, 부분승인완료 상품의 반려 사유
+  @Column({ name: 'rejection_reason', type: 'text', nullable: true })
+  rejectionReason: string | null;
+
+  @Column({ name: 'sale_started_at', type: 'timestamp', nullable: true })
+  saleStartedAt: Date | null;
+
+  @Column({ name: 'sale_ended_at', type: 'timestamp', nullable: true })
+  saleEndedAt: Date | null;
+
+  @Column({ name: 'sync_run_id', type: 'varchar', nullable: true })
+  syncRunId: string | null;
+
+  @Column({ name: 'last_synced_at', type: 'timestamp', nullable: true })
+  lastSyncedAt: Date | null;
+
+  // 아이템(옵션)을 상품 상세 API로 마지막으로 갱신한 시각
+  @Column({ name: 'items_synced_at', type: 'timestamp', nullable: true })
+  itemsSyncedAt: Date | null;
+
+  @Column({ name: 'removed_at', type: 'timestamp', nullable: true })
+  removedAt: Date | null;
+
+  @OneToMany(() => CoupangVendorItemEntity, (item) => item.product, { cascade: true })
+  items: CoupangVendorItemEntity[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
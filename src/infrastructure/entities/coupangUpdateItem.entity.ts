@@ -20,8 +20,13 @@ export class CoupangUpdateItemEntity {
   @Column({ name: 'winner_price', type: 'int', nullable: false })
   winnerPrice: number;
 
-  @Column({ name: 'seller_price', type: 'int', nullable: false })
-  sellerPrice: number;
+  // 공급가 (자체 가격 재조정으로 생성된 아이템은 공급가 정보가 없음)
+  @Column({ name: 'seller_price', type: 'int', nullable: true })
+  sellerPrice: number | null;
+
+  // 가격 결정 사유 (자체 가격 재조정 규칙, 외부 서비스가 저장한 아이템은 null)
+  @Column({ name: 'reason', type: 'varchar', length: 30, nullable: true })
+  reason: string | null;
 
   @Column({ name: 'cron_id', type: 'varchar', unique: false })
   cronId: string;
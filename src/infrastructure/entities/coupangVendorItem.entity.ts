@@ -0,0 +1,51 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+import { CoupangSellerProductEntity } from './coupangSellerProduct.entity';
+
+/**
+ * 쿠팡 판매자 상품의 아이템(옵션) (상품 상세 API 기준)
+ */
+@Entity({ name: 'coupang_vendor_item' })
+export class CoupangVendorItemEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => CoupangSellerProductEntity, (product) => product.items, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'catalogue_product_id' })
+  product: CoupangSellerProductEntity;
+
+  @Index({ unique: true })
+  @Column({ name: 'vendor_item_id', type: 'bigint' })
+  vendorItemId: string;
+
+  @Column({ name: 'item_name', type: 'varchar', length: 255, nullable: true })
+  itemName: string;
+
+  @Column({ name: 'original_price', type: 'int', nullable: true })
+  originalPrice: number | null;
+
+  @Column({ name: 'sale_price', type: 'int', nullable: true })
+  salePrice: number | null;
+
+  @Column({ name: 'maximum_buy_count', type: 'int', nullable: true })
+  maximumBuyCount: number | null;
+
+  // 온채널 상품코드
+  @Column({ name: 'external_vendor_sku', type: 'varchar', length: 255, nullable: true })
+  externalVendorSku: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
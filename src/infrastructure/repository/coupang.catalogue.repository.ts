@@ -0,0 +1,94 @@
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, In, IsNull, Repository } from 'typeorm';
+
+import { CoupangSellerProductEntity } from '../entities/coupangSellerProduct.entity';
+import { CoupangVendorItemEntity } from '../entities/coupangVendorItem.entity';
+
+export class CoupangCatalogueRepository {
+  constructor(
+    @InjectRepository(CoupangSellerProductEntity)
+    private readonly coupangSellerProductRepository: Repository<CoupangSellerProductEntity>,
+    @InjectRepository(CoupangVendorItemEntity)
+    private readonly coupangVendorItemRepository: Repository<CoupangVendorItemEntity>,
+  ) {}
+
+  /**
+   * 삭제 표시된 상품을 포함한 전체 카탈로그 상품 (아이템 제외)
+   */
+  async findAllSellerProducts() {
+    return await this.coupangSellerProductRepository.find();
+  }
+
+  async saveSellerProducts(products: Partial<CoupangSellerProductEntity>[]) {
+    if (products.length === 0) return [];
+    return await this.coupangSellerProductRepository.save(products, { chunk: 500 });
+  }
+
+  async markSellerProductsRemoved(ids: number[]) {
+    if (ids.length === 0) return;
+    await this.coupangSellerProductRepository.update(
+      { id: In(ids) },
+      { removedAt: () => 'CURRENT_TIMESTAMP' },
+    );
+  }
+
+  /**
+   * 상품의 아이템을 상세 조회 결과로 교체 (vendorItemId 기준으로 갱신하고 없어진 아이템은 삭제)
+   */
+  async replaceVendorItems(
+    product: CoupangSellerProductEntity,
+    items: Partial<CoupangVendorItemEntity>[],
+  ) {
+    const existing = items.length
+      ? await this.coupangVendorItemRepository.find({
+          where: { vendorItemId: In(items.map((item) => item.vendorItemId)) },
+          select: { id: true, vendorItemId: true },
+        })
+      : [];
+    const idByVendorItemId = new Map(existing.map((item) => [String(item.vendorItemId), item.id]));
+
+    const saved = await this.coupangVendorItemRepository.save(
+      items.map((item) => ({
+        ...item,
+        id: idByVendorItemId.get(String(item.vendorItemId)),
+        product: { id: product.id } as CoupangSellerProductEntity,
+      })),
+    );
+
+    const deleteQuery = this.coupangVendorItemRepository
+      .createQueryBuilder()
+      .delete()
+      .where('catalogue_product_id = :productId', { productId: product.id });
+    if (saved.length > 0) {
+      deleteQuery.andWhere('id NOT IN (:...ids)', { ids: saved.map((item) => item.id) });
+    }
+    await deleteQuery.execute();
+
+    await this.coupangSellerProductRepository.update(product.id, { itemsSyncedAt: new Date() });
+  }
+
+  async findSellerProducts(filter: {
+    statusName?: string;
+    sellerProductIds?: string[];
+    includeRemoved?: boolean;
+  }) {
+    const where: FindOptionsWhere<CoupangSellerProductEntity> = {};
+
+    if (filter.statusName) where.statusName = filter.statusName;
+    if (filter.sellerProductIds?.length) where.sellerProductId = In(filter.sellerProductIds);
+    if (!filter.includeRemoved) where.removedAt = IsNull();
+
+    return await this.coupangSellerProductRepository.find({
+      where: where,
+      relations: { items: true },
+      order: { sellerProductId: 'ASC' },
+    });
+  }
+
+  async findVendorItem(vendorItemId: string) {
+    return await this.coupangVendorItemRepository.findOne({
+      where: { vendorItemId: vendorItemId },
+      relations: { product: true },
+    });
+  }
+}
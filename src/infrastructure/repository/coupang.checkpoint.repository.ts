@@ -0,0 +1,39 @@
+import { InjectRedis } from '@nestjs-modules/ioredis';
+import Redis from 'ioredis';
+
+// 크롤링이 중단된 작업을 재시도할 때까지 체크포인트를 보관하는 기간
+const CHECKPOINT_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+/**
+ * 크롤링 진행 상황을 Redis에 저장하는 체크포인트 저장소
+ *
+ * 같은 작업(jobId)이 재시도되면 완료된 페이지와 커서를 이어받아 중단된 지점부터 다시 시작합니다.
+ */
+export class CoupangCheckpointRepository {
+  constructor(@InjectRedis() private readonly redis: Redis) {}
+
+  async getCompletedPages(key: string): Promise<Set<number>> {
+    const pages = await this.redis.smembers(`${key}:pages`);
+    return new Set(pages.map(Number));
+  }
+
+  async markPageCompleted(key: string, page: number) {
+    await this.redis
+      .multi()
+      .sadd(`${key}:pages`, page)
+      .expire(`${key}:pages`, CHECKPOINT_TTL_SECONDS)
+      .exec();
+  }
+
+  async getValue(key: string): Promise<string | null> {
+    return await this.redis.get(key);
+  }
+
+  async setValue(key: string, value: string | number) {
+    await this.redis.set(key, value, 'EX', CHECKPOINT_TTL_SECONDS);
+  }
+
+  async clear(key: string) {
+    await this.redis.del(key, `${key}:pages`);
+  }
+}
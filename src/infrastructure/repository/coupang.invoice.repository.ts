@@ -0,0 +1,125 @@
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, In, Repository } from 'typeorm';
+
+import { CoupangInvoiceUploadEntity } from '../entities/coupangInvoiceUpload.entity';
+
+type InvoiceLedgerKey = Pick<
+  CoupangInvoiceUploadEntity,
+  'shipmentBoxId' | 'vendorItemId' | 'invoiceNumber'
+>;
+
+export class CoupangInvoiceRepository {
+  constructor(
+    @InjectRepository(CoupangInvoiceUploadEntity)
+    private readonly coupangInvoiceUploadRepository: Repository<CoupangInvoiceUploadEntity>,
+  ) {}
+
+  async findUploadsByShipmentBoxIds(shipmentBoxIds: number[]) {
+    if (shipmentBoxIds.length === 0) return [];
+
+    return await this.coupangInvoiceUploadRepository.find({
+      where: { shipmentBoxId: In(shipmentBoxIds) },
+    });
+  }
+
+  async saveUploads(uploads: Partial<CoupangInvoiceUploadEntity>[]) {
+    if (uploads.length === 0) return;
+
+    // 송장 정정처럼 API 호출 후에 기록하는 줄은 기존 기록의 상태를 덮어씀
+    await this.coupangInvoiceUploadRepository
+      .createQueryBuilder()
+      .insert()
+      .into(CoupangInvoiceUploadEntity)
+      .values(uploads.map((upload) => ({ ...upload, status: 'SUCCEEDED' as const })))
+      .orUpdate(
+        ['status', 'source', 'cron_id', 'updated_at'],
+        ['shipment_box_id', 'vendor_item_id', 'invoice_number'],
+      )
+      .execute();
+  }
+
+  /**
+   * 업로드할 줄을 PENDING으로 선점하고 선점에 성공한 줄만 반환
+   *
+   * 기록이 없거나 FAILED인 줄, staleBefore보다 오래 PENDING으로 남은 줄(처리 중 중단된 요청)이 선점됩니다.
+   * 그 외의 PENDING/SUCCEEDED인 줄은 다른 요청이 처리 중이거나 완료된 줄입니다.
+   */
+  async claimUploads(
+    uploads: Partial<CoupangInvoiceUploadEntity>[],
+    staleBefore: Date,
+  ): Promise<InvoiceLedgerKey[]> {
+    if (uploads.length === 0) return [];
+
+    // 실패한 줄과 오래 남은 PENDING 줄은 조건부 UPDATE로 다시 선점 (updated_at도 갱신됨)
+    const reclaimed = await this.coupangInvoiceUploadRepository
+      .createQueryBuilder()
+      .update(CoupangInvoiceUploadEntity)
+      .set({ status: 'PENDING', cronId: uploads[0].cronId })
+      .where(
+        new Brackets((qb) =>
+          qb
+            .where('status = :failed', { failed: 'FAILED' })
+            .orWhere('(status = :pending AND updated_at < :staleBefore)', {
+              pending: 'PENDING',
+              staleBefore,
+            }),
+        ),
+      )
+      .andWhere(this.matchLedgerKeys(uploads as InvoiceLedgerKey[]))
+      .returning(['shipmentBoxId', 'vendorItemId', 'invoiceNumber'])
+      .execute();
+
+    // 기록이 없는 줄은 INSERT로 선점 (이미 있는 줄은 무시되어 반환되지 않음)
+    const inserted = await this.coupangInvoiceUploadRepository
+      .createQueryBuilder()
+      .insert()
+      .into(CoupangInvoiceUploadEntity)
+      .values(uploads.map((upload) => ({ ...upload, status: 'PENDING' as const })))
+      .orIgnore()
+      .returning(['shipmentBoxId', 'vendorItemId', 'invoiceNumber'])
+      .execute();
+
+    return [...(reclaimed.raw ?? []), ...(inserted.raw ?? [])].map((row: any) => ({
+      shipmentBoxId: Number(row.shipment_box_id),
+      vendorItemId: Number(row.vendor_item_id),
+      invoiceNumber: row.invoice_number,
+    }));
+  }
+
+  async markUploads(keys: InvoiceLedgerKey[], status: 'SUCCEEDED' | 'FAILED') {
+    if (keys.length === 0) return;
+
+    await this.coupangInvoiceUploadRepository
+      .createQueryBuilder()
+      .update(CoupangInvoiceUploadEntity)
+      .set({ status: status })
+      .where('status = :pending', { pending: 'PENDING' })
+      .andWhere(this.matchLedgerKeys(keys))
+      .execute();
+  }
+
+  async findUploadsByOrderId(orderId: number) {
+    return await this.coupangInvoiceUploadRepository.find({
+      where: { orderId: orderId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * 발주서, 아이템, 운송장 번호 조합 중 하나와 일치하는 조건
+   */
+  private matchLedgerKeys(keys: InvoiceLedgerKey[]) {
+    return new Brackets((qb) =>
+      keys.forEach((key, i) =>
+        qb.orWhere(
+          `(shipment_box_id = :box${i} AND vendor_item_id = :item${i} AND invoice_number = :invoice${i})`,
+          {
+            [`box${i}`]: key.shipmentBoxId,
+            [`item${i}`]: key.vendorItemId,
+            [`invoice${i}`]: key.invoiceNumber,
+          },
+        ),
+      ),
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Between,
+  FindOptionsWhere,
+  In,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+
+import { CoupangOrderEntity } from '../entities/coupangOrder.entity';
+import { CoupangOrderStatusHistoryEntity } from '../entities/coupangOrderStatusHistory.entity';
+
+export class CoupangOrderRepository {
+  constructor(
+    @InjectRepository(CoupangOrderEntity)
+    private readonly coupangOrderRepository: Repository<CoupangOrderEntity>,
+    @InjectRepository(CoupangOrderStatusHistoryEntity)
+    private readonly coupangOrderStatusHistoryRepository: Repository<CoupangOrderStatusHistoryEntity>,
+  ) {}
+
+  async findOrdersByShipmentBoxIds(shipmentBoxIds: number[]) {
+    if (shipmentBoxIds.length === 0) return [];
+
+    return await this.coupangOrderRepository.find({
+      where: { shipmentBoxId: In(shipmentBoxIds) },
+      relations: { items: true },
+    });
+  }
+
+  async saveOrders(orders: Partial<CoupangOrderEntity>[]) {
+    return await this.coupangOrderRepository.save(orders);
+  }
+
+  async saveStatusHistories(histories: Partial<CoupangOrderStatusHistoryEntity>[]) {
+    if (histories.length === 0) return;
+    await this.coupangOrderStatusHistoryRepository.save(histories);
+  }
+
+  async findOrders(filter: { status?: string; from?: Date; to?: Date }) {
+    const where: FindOptionsWhere<CoupangOrderEntity> = {};
+
+    if (filter.status) where.status = filter.status;
+    if (filter.from && filter.to) where.orderedAt = Between(filter.from, filter.to);
+    else if (filter.from) where.orderedAt = MoreThanOrEqual(filter.from);
+    else if (filter.to) where.orderedAt = LessThanOrEqual(filter.to);
+
+    return await this.coupangOrderRepository.find({
+      where: where,
+      relations: { items: true },
+      order: { orderedAt: 'DESC' },
+    });
+  }
+
+  async getStatusHistories(shipmentBoxId: number) {
+    return await this.coupangOrderStatusHistoryRepository.find({
+      where: { shipmentBoxId: shipmentBoxId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+
+import { CoupangPriceChangeEntity } from '../entities/coupangPriceChange.entity';
+
+export class CoupangPriceRepository {
+  constructor(
+    @InjectRepository(CoupangPriceChangeEntity)
+    private readonly coupangPriceChangeRepository: Repository<CoupangPriceChangeEntity>,
+  ) {}
+
+  async savePriceChanges(changes: Partial<CoupangPriceChangeEntity>[]) {
+    if (changes.length === 0) return;
+    await this.coupangPriceChangeRepository.save(changes);
+  }
+
+  async getPriceChanges(runId: string) {
+    return await this.coupangPriceChangeRepository.find({
+      where: { runId: runId },
+      order: { id: 'ASC' },
+    });
+  }
+
+  /**
+   * 실행에서 쿠팡 반영에 성공했지만 아직 검증하지 않은 가격 변경 이력
+   */
+  async findUnverifiedChanges(runId: string) {
+    return await this.coupangPriceChangeRepository.find({
+      where: { runId: runId, source: 'update', status: 'success', verification: IsNull() },
+      order: { id: 'ASC' },
+    });
+  }
+
+  async updatePriceChange(id: number, fields: Partial<CoupangPriceChangeEntity>) {
+    await this.coupangPriceChangeRepository.update({ id: id }, fields);
+  }
+
+  /**
+   * 아이템별 가장 최근에 성공한 가격 변경 이력
+   */
+  async findLatestSucceededChanges(vendorItemIds: number[]) {
+    if (vendorItemIds.length === 0) return [];
+
+    const changes = await this.coupangPriceChangeRepository.find({
+      where: { vendorItemId: In(vendorItemIds), status: 'success' },
+      order: { id: 'DESC' },
+    });
+
+    const latest = new Map<string, CoupangPriceChangeEntity>();
+    for (const change of changes) {
+      const key = String(change.vendorItemId);
+      if (!latest.has(key)) latest.set(key, change);
+    }
+
+    return [...latest.values()];
+  }
+}
@@ -1,11 +1,45 @@
 import { AdjustData, CoupangPriceComparisonData } from '@daechanjo/models';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, IsNull, Repository } from 'typeorm';
 
+import { CrawlRejectedRow, CrawlRejectedRowSource } from '../../core/types/coupangCrawl.types';
 import { CoupangComparisonEntity } from '../entities/coupangComparison.entity';
+import { CoupangComparisonRunEntity } from '../entities/coupangComparisonRun.entity';
+import { CoupangCrawlRejectedRowEntity } from '../entities/coupangCrawlRejectedRow.entity';
+import { CoupangPricePreviewEntity } from '../entities/coupangPricePreview.entity';
 import { CoupangProductEntity } from '../entities/coupangProduct.entity';
 import { CoupangUpdateItemEntity } from '../entities/coupangUpdateItem.entity';
 
+// 가격 비교 응답에서 원 단위 정수로 저장하는 항목
+const COMPARISON_INTEGER_FIELDS = [
+  'priceGapWithWinnerProduct',
+  'winnerPrice',
+  'winnerFinalPrice',
+  'winnerShippingFee',
+  'winnerCoupon',
+  'currentPrice',
+  'currentFinalPrice',
+  'currentShippingFee',
+  'recommendPrice',
+  'recommendFinalPrice',
+  'myRecentSales',
+  'myRecentGmv',
+] as const;
+
+/**
+ * '12,900원', '-1,000' 같은 금액 표기를 정수로 변환 (숫자가 없으면 null)
+ */
+const toInteger = (value: unknown): number | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? Math.round(value) : null;
+
+  const digits = String(value).replace(/[^\d.-]/g, '');
+  if (!digits) return null;
+
+  const parsed = Number(digits);
+  return Number.isFinite(parsed) ? Math.round(parsed) : null;
+};
+
 export class CoupangRepository {
   constructor(
     @InjectRepository(CoupangProductEntity)
@@ -14,6 +48,12 @@ export class CoupangRepository {
     private readonly coupangUpdateItemRepository: Repository<CoupangUpdateItemEntity>,
     @InjectRepository(CoupangComparisonEntity)
     private readonly coupangComparisonRepository: Repository<CoupangComparisonEntity>,
+    @InjectRepository(CoupangComparisonRunEntity)
+    private readonly coupangComparisonRunRepository: Repository<CoupangComparisonRunEntity>,
+    @InjectRepository(CoupangPricePreviewEntity)
+    private readonly coupangPricePreviewRepository: Repository<CoupangPricePreviewEntity>,
+    @InjectRepository(CoupangCrawlRejectedRowEntity)
+    private readonly coupangCrawlRejectedRowRepository: Repository<CoupangCrawlRejectedRowEntity>,
   ) {}
 
   async saveUpdatedCoupangItems(items: AdjustData[], cronId: string) {
@@ -25,16 +65,121 @@ export class CoupangRepository {
     return await this.coupangUpdateItemRepository.save(productsWithVersion);
   }
 
-  async saveCoupangProductDetails(details: Partial<CoupangProductEntity>[]) {
-    await this.coupangProductRepository.save(details);
+  async saveCoupangProductDetails(details: Partial<CoupangProductEntity>[], crawlRunId: string) {
+    // 같은 페이지에 같은 상품이 두 번 나오면 마지막 값만 사용
+    const products = new Map<string, Partial<CoupangProductEntity>>();
+    for (const detail of details) {
+      if (!detail.sellerProductId) continue;
+      products.set(String(detail.sellerProductId), {
+        ...detail,
+        sellerProductId: String(detail.sellerProductId),
+        crawlRunId: crawlRunId,
+        lastSeenAt: new Date(),
+        missingAt: null,
+      });
+    }
+    if (products.size === 0) return;
+
+    // 기존 행을 갱신하고, 이전 크롤링에서 중복 저장된 행은 삭제
+    const existing = await this.coupangProductRepository.find({
+      where: { sellerProductId: In([...products.keys()]) },
+      order: { id: 'ASC' },
+      select: { id: true, sellerProductId: true },
+    });
+    const duplicateIds: number[] = [];
+    for (const row of existing) {
+      const product = products.get(row.sellerProductId)!;
+      if (product.id) duplicateIds.push(row.id);
+      else product.id = row.id;
+    }
+
+    await this.coupangProductRepository.save([...products.values()]);
+    if (duplicateIds.length > 0) await this.coupangProductRepository.delete(duplicateIds);
+  }
+
+  /**
+   * 크롤링 실행에서 발견되지 않은 상품을 사라진 상품으로 표시
+   */
+  async markMissingCoupangProducts(crawlRunId: string) {
+    const result = await this.coupangProductRepository
+      .createQueryBuilder()
+      .update()
+      .set({ missingAt: () => 'CURRENT_TIMESTAMP' })
+      .where('(crawl_run_id IS NULL OR crawl_run_id != :crawlRunId)', { crawlRunId })
+      .andWhere('missing_at IS NULL')
+      .execute();
+
+    return result.affected ?? 0;
+  }
+
+  async countCoupangProductsByRun(crawlRunId: string) {
+    return await this.coupangProductRepository.count({ where: { crawlRunId: crawlRunId } });
+  }
+
+  /**
+   * 사라진 상품으로 표시되지 않은 상품 수
+   */
+  async countActiveCoupangProducts() {
+    return await this.coupangProductRepository.count({ where: { missingAt: IsNull() } });
+  }
+
+  async saveCrawlRejectedRows(
+    rows: CrawlRejectedRow[],
+    crawlRunId: string,
+    source: CrawlRejectedRowSource,
+  ) {
+    if (rows.length === 0) return;
+
+    // 체크포인트에서 같은 페이지를 다시 수집한 경우 이미 기록된 행은 무시
+    await this.coupangCrawlRejectedRowRepository
+      .createQueryBuilder()
+      .insert()
+      .into(CoupangCrawlRejectedRowEntity)
+      .values(rows.map((row) => ({ ...row, crawlRunId: crawlRunId, source: source })))
+      .orIgnore()
+      .execute();
+  }
+
+  async getCrawlRejectedRows(crawlRunId: string) {
+    return await this.coupangCrawlRejectedRowRepository.find({
+      where: { crawlRunId: crawlRunId },
+      order: { source: 'ASC', page: 'ASC', rowIndex: 'ASC' },
+    });
+  }
+
+  async countCrawlRejectedRows(crawlRunId: string, source: CrawlRejectedRowSource) {
+    return await this.coupangCrawlRejectedRowRepository.count({
+      where: { crawlRunId: crawlRunId, source: source },
+    });
   }
 
   async getCoupangProducts() {
     return await this.coupangProductRepository.find();
   }
 
-  async clearCoupangComparison() {
-    return await this.coupangComparisonRepository.delete({});
+  /**
+   * 보관 기간이 지난 가격 비교 스냅샷과 실행 기록 삭제 (가장 최근에 완료된 실행은 항상 유지)
+   */
+  async pruneComparisonSnapshots(retentionDays: number) {
+    const latestRunId = await this.findLatestComparisonRunId();
+    const threshold = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const query = this.coupangComparisonRepository
+      .createQueryBuilder()
+      .delete()
+      .where('created_at < :threshold', { threshold });
+    if (latestRunId) query.andWhere('crawl_run_id != :latestRunId', { latestRunId });
+
+    const result = await query.execute();
+
+    const runQuery = this.coupangComparisonRunRepository
+      .createQueryBuilder()
+      .delete()
+      .where('created_at < :threshold', { threshold });
+    if (latestRunId) runQuery.andWhere('crawl_run_id != :latestRunId', { latestRunId });
+    await runQuery.execute();
+
+    return result;
   }
 
   async getUpdatedItems(cronId: string) {
@@ -43,11 +188,204 @@ export class CoupangRepository {
     });
   }
 
-  async savePriceComparison(comparisonData: CoupangPriceComparisonData[]) {
-    await this.coupangComparisonRepository.save(comparisonData);
+  async savePriceComparison(comparisonData: CoupangPriceComparisonData[], crawlRunId: string) {
+    const snapshots = comparisonData.map((data: any) => ({
+      ...data,
+      crawlRunId: crawlRunId,
+      ...Object.fromEntries(
+        COMPARISON_INTEGER_FIELDS.map((field) => [field, toInteger(data[field])]),
+      ),
+    }));
+
+    // 같은 실행에서 다시 수집된 아이템은 최신 값으로 덮어씀
+    await this.coupangComparisonRepository.upsert(snapshots, ['crawlRunId', 'vendorItemId']);
+  }
+
+  /**
+   * 가격 비교 크롤링 실행 시작 기록 (같은 실행을 재시도하면 RUNNING으로 되돌림)
+   */
+  async startComparisonRun(crawlRunId: string, winnerStatus: string) {
+    await this.coupangComparisonRunRepository.upsert(
+      { crawlRunId: crawlRunId, winnerStatus: winnerStatus, status: 'RUNNING', completedAt: null },
+      ['crawlRunId', 'winnerStatus'],
+    );
+  }
+
+  async finishComparisonRun(
+    crawlRunId: string,
+    winnerStatus: string,
+    status: 'COMPLETED' | 'FAILED',
+  ) {
+    await this.coupangComparisonRunRepository.update(
+      { crawlRunId: crawlRunId, winnerStatus: winnerStatus },
+      { status: status, completedAt: status === 'COMPLETED' ? new Date() : null },
+    );
+  }
+
+  /**
+   * 모든 위너 상태 수집이 완료된 크롤링 실행 ID를 완료 시각 최신순으로 조회하는 쿼리
+   *
+   * 실행 하나는 위너 상태별로 여러 줄이므로, 한 줄이라도 수집 중이거나 실패한 실행은 제외합니다.
+   */
+  private completedComparisonRunsQuery() {
+    return this.coupangComparisonRunRepository
+      .createQueryBuilder('run')
+      .select('run.crawl_run_id', 'crawl_run_id')
+      .groupBy('run.crawl_run_id')
+      .having(`bool_and(run.status = 'COMPLETED')`)
+      .orderBy('MAX(run.completed_at)', 'DESC')
+      .addOrderBy('MAX(run.id)', 'DESC');
+  }
+
+  /**
+   * 가장 최근에 완료된 크롤링 실행 ID (수집 중이거나 실패한 실행은 제외)
+   */
+  async findLatestComparisonRunId(): Promise<string | null> {
+    const latest: { crawl_run_id: string } | undefined = await this.completedComparisonRunsQuery()
+      .limit(1)
+      .getRawOne();
+
+    return latest?.crawl_run_id ?? null;
+  }
+
+  /**
+   * 지정한 크롤링 실행이 시작되기 전에 완료된 가장 최근 실행 ID (수집 중이거나 실패한 실행은 제외)
+   */
+  async findPreviousComparisonRunId(crawlRunId: string): Promise<string | null> {
+    const current = await this.coupangComparisonRunRepository.findOne({
+      where: { crawlRunId: crawlRunId },
+      order: { createdAt: 'ASC' },
+      select: { createdAt: true },
+    });
+
+    const previous: { crawl_run_id: string } | undefined = await this.completedComparisonRunsQuery()
+      .where('run.crawl_run_id != :crawlRunId', { crawlRunId })
+      .andHaving('MAX(run.completed_at) < :startedAt', {
+        startedAt: current?.createdAt ?? new Date(),
+      })
+      .limit(1)
+      .getRawOne();
+
+    return previous?.crawl_run_id ?? null;
+  }
+
+  /**
+   * 가장 최근에 완료된 크롤링 실행의 스냅샷 (crawlRunId를 지정하면 해당 실행의 스냅샷)
+   */
+  async getComparisons(crawlRunId?: string) {
+    const runId = crawlRunId ?? (await this.findLatestComparisonRunId());
+    if (!runId) return [];
+
+    return await this.coupangComparisonRepository.find({ where: { crawlRunId: runId } });
+  }
+
+  /**
+   * 최근에 완료된 크롤링 실행 ID 목록 (최신순)
+   */
+  async findRecentComparisonRunIds(limit: number): Promise<string[]> {
+    const rows: { crawl_run_id: string }[] = await this.completedComparisonRunsQuery()
+      .limit(limit)
+      .getRawMany();
+
+    return rows.map((row) => row.crawl_run_id);
+  }
+
+  /**
+   * 크롤링 실행에서 내 아이템의 위너인 경쟁 판매자별 집계
+   */
+  async aggregateCompetitors(crawlRunId: string) {
+    const rows = await this.coupangComparisonRepository
+      .createQueryBuilder('comparison')
+      .select('comparison.winner_vendor_id', 'winnerVendorId')
+      .addSelect('COUNT(DISTINCT comparison.vendor_item_id)', 'itemCount')
+      .addSelect('AVG(comparison.price_gap_with_winner_product)', 'avgPriceGap')
+      .addSelect(
+        'PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY comparison.price_gap_with_winner_product)',
+        'medianPriceGap',
+      )
+      .addSelect('AVG(comparison.winner_shipping_fee)', 'avgShippingFee')
+      .addSelect(
+        'AVG(CASE WHEN COALESCE(comparison.winner_shipping_fee, 0) = 0 THEN 1 ELSE 0 END)',
+        'freeShippingRate',
+      )
+      .addSelect('SUM(COALESCE(comparison.my_recent_gmv, 0))', 'lostGmv')
+      .where('comparison.crawl_run_id = :crawlRunId', { crawlRunId })
+      .andWhere('comparison.winner_status = false')
+      .groupBy('comparison.winner_vendor_id')
+      .orderBy('"itemCount"', 'DESC')
+      .getRawMany();
+
+    return rows.map((row) => ({
+      winnerVendorId: row.winnerVendorId as string,
+      itemCount: Number(row.itemCount),
+      avgPriceGap: row.avgPriceGap === null ? null : Math.round(Number(row.avgPriceGap)),
+      medianPriceGap: row.medianPriceGap === null ? null : Math.round(Number(row.medianPriceGap)),
+      avgShippingFee: row.avgShippingFee === null ? null : Math.round(Number(row.avgShippingFee)),
+      freeShippingRate: Number(Number(row.freeShippingRate).toFixed(3)),
+      lostGmv: Number(row.lostGmv),
+    }));
+  }
+
+  /**
+   * 크롤링 실행별, 경쟁 판매자별 위너 아이템 수
+   */
+  async countCompetitorItemsByRun(crawlRunIds: string[], winnerVendorIds: string[]) {
+    if (crawlRunIds.length === 0 || winnerVendorIds.length === 0) return [];
+
+    const rows = await this.coupangComparisonRepository
+      .createQueryBuilder('comparison')
+      .select('comparison.crawl_run_id', 'crawlRunId')
+      .addSelect('comparison.winner_vendor_id', 'winnerVendorId')
+      .addSelect('COUNT(DISTINCT comparison.vendor_item_id)', 'itemCount')
+      .addSelect('MIN(comparison.created_at)', 'crawledAt')
+      .where('comparison.crawl_run_id IN (:...crawlRunIds)', { crawlRunIds })
+      .andWhere('comparison.winner_vendor_id IN (:...winnerVendorIds)', { winnerVendorIds })
+      .andWhere('comparison.winner_status = false')
+      .groupBy('comparison.crawl_run_id')
+      .addGroupBy('comparison.winner_vendor_id')
+      .getRawMany();
+
+    return rows.map((row) => ({
+      crawlRunId: row.crawlRunId as string,
+      winnerVendorId: row.winnerVendorId as string,
+      itemCount: Number(row.itemCount),
+      crawledAt: new Date(row.crawledAt),
+    }));
   }
 
   async getComparisonCount() {
-    return await this.coupangComparisonRepository.count();
+    const runId = await this.findLatestComparisonRunId();
+    if (!runId) return 0;
+
+    return await this.coupangComparisonRepository.count({ where: { crawlRunId: runId } });
+  }
+
+  async savePricePreview(preview: Partial<CoupangPricePreviewEntity>) {
+    return await this.coupangPricePreviewRepository.save(preview);
+  }
+
+  async getPricePreview(previewId: string) {
+    return await this.coupangPricePreviewRepository.findOne({ where: { id: previewId } });
+  }
+
+  /**
+   * 승인 대기 중인 미리보기를 반영 중(APPLYING)으로 변경
+   *
+   * 조건부 UPDATE로 처리하므로 동시에 들어온 승인 요청 중 하나만 성공합니다.
+   */
+  async claimPricePreview(previewId: string, appliedCronId: string): Promise<boolean> {
+    const result = await this.coupangPricePreviewRepository.update(
+      { id: previewId, status: 'PENDING' },
+      { status: 'APPLYING', appliedCronId: appliedCronId },
+    );
+
+    return result.affected === 1;
+  }
+
+  async finishPricePreview(previewId: string, status: 'APPLIED' | 'PARTIALLY_APPLIED' | 'FAILED') {
+    await this.coupangPricePreviewRepository.update(
+      { id: previewId, status: 'APPLYING' },
+      { status: status, appliedAt: new Date() },
+    );
   }
 }
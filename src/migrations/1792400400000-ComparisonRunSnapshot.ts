@@ -0,0 +1,89 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// 금액 표기('12,900원' 등)에서 정수로 바꾸는 가격 비교 컬럼과 변경할 타입
+const INTEGER_COLUMNS: [column: string, type: 'integer' | 'bigint'][] = [
+  ['price_gap_with_winner_product', 'integer'],
+  ['winner_price', 'integer'],
+  ['winner_final_price', 'integer'],
+  ['winner_shipping_fee', 'integer'],
+  ['winner_coupon', 'integer'],
+  ['current_price', 'integer'],
+  ['current_final_price', 'integer'],
+  ['current_shipping_fee', 'integer'],
+  ['recommend_price', 'integer'],
+  ['recommend_final_price', 'integer'],
+  ['my_recent_sales', 'integer'],
+  ['my_recent_gmv', 'bigint'],
+];
+
+// 기존 행을 묶는 크롤링 실행 ID (실행 기록이 없으므로 완료된 실행으로 취급하지 않음)
+const LEGACY_RUN_ID = 'legacy';
+
+/**
+ * 가격 비교 데이터(coupang_comparison)를 크롤링 실행별 스냅샷으로 전환
+ *
+ * synchronize보다 먼저 실행되어 기존 데이터를 보존한 채 스키마를 엔티티와 맞춥니다.
+ * 1. crawl_run_id를 nullable로 추가하고 기존 행을 legacy 실행으로 채운 뒤 NOT NULL로 변경
+ *    (같은 아이템이 여러 번 저장된 경우 가장 최근 행만 남김)
+ * 2. 금액 컬럼을 숫자만 남겨 정수로 변환 (숫자가 없는 값은 NULL)
+ *
+ * 인덱스와 coupang_comparison_run 테이블은 이후 synchronize가 생성합니다.
+ */
+export class ComparisonRunSnapshot1792400400000 implements MigrationInterface {
+  name = 'ComparisonRunSnapshot1792400400000';
+
+  async up(queryRunner: QueryRunner): Promise<void> {
+    // 새로 만드는 데이터베이스는 synchronize가 엔티티대로 생성
+    if (!(await queryRunner.hasTable('coupang_comparison'))) return;
+
+    if (!(await queryRunner.hasColumn('coupang_comparison', 'crawl_run_id'))) {
+      await queryRunner.query(
+        `ALTER TABLE "coupang_comparison" ADD COLUMN "crawl_run_id" character varying NULL`,
+      );
+      await queryRunner.query(
+        `UPDATE "coupang_comparison" SET "crawl_run_id" = $1 WHERE "crawl_run_id" IS NULL`,
+        [LEGACY_RUN_ID],
+      );
+      await queryRunner.query(
+        `DELETE FROM "coupang_comparison" older USING "coupang_comparison" newer
+          WHERE older."crawl_run_id" = newer."crawl_run_id"
+            AND older."vendor_item_id" = newer."vendor_item_id"
+            AND older."id" < newer."id"`,
+      );
+      await queryRunner.query(
+        `ALTER TABLE "coupang_comparison" ALTER COLUMN "crawl_run_id" SET NOT NULL`,
+      );
+    }
+
+    const table = await queryRunner.getTable('coupang_comparison');
+
+    for (const [column, type] of INTEGER_COLUMNS) {
+      const existing = table?.findColumnByName(column);
+      if (!existing || existing.type === type) continue;
+
+      await queryRunner.query(
+        `ALTER TABLE "coupang_comparison" ALTER COLUMN "${column}" DROP NOT NULL`,
+      );
+      await queryRunner.query(
+        `ALTER TABLE "coupang_comparison" ALTER COLUMN "${column}" TYPE ${type}
+          USING CASE
+            WHEN regexp_replace("${column}"::text, '[^0-9.-]', '', 'g') ~ '^-?[0-9]+(\\.[0-9]+)?$'
+              THEN round(regexp_replace("${column}"::text, '[^0-9.-]', '', 'g')::numeric)::${type}
+            ELSE NULL
+          END`,
+      );
+    }
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('coupang_comparison'))) return;
+
+    for (const [column] of INTEGER_COLUMNS) {
+      await queryRunner.query(
+        `ALTER TABLE "coupang_comparison" ALTER COLUMN "${column}" TYPE character varying USING "${column}"::text`,
+      );
+    }
+
+    await queryRunner.query(`ALTER TABLE "coupang_comparison" DROP COLUMN "crawl_run_id"`);
+  }
+}
@@ -0,0 +1,366 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { JSDOM } from 'jsdom';
+import type { Page, Response } from 'playwright';
+
+import { WING_RESPONSES, WING_SELECTORS_VERSION } from '../../src/core/crawler/wing.selectors';
+
+/**
+ * 저장된 윙 API 응답 (fixture.json의 responses 항목)
+ *
+ * url은 캡처 당시의 전체 요청 URL, file은 스냅샷 디렉터리 기준 JSON 파일명입니다.
+ */
+export interface WingFixtureResponse {
+  url: string;
+  file: string;
+  status?: number;
+}
+
+/**
+ * 윙 화면 스냅샷 정의 (스냅샷 디렉터리의 fixture.json)
+ *
+ * version은 캡처 당시의 WING_SELECTORS_VERSION입니다.
+ */
+export interface WingFixture {
+  name: string;
+  version: string;
+  url: string;
+  html: string;
+  responses: WingFixtureResponse[];
+}
+
+export interface WingFixturePage {
+  /** 프로바이더에 그대로 넘길 수 있는 Page (FixturePage가 사용하는 메서드만 구현) */
+  page: Page;
+  /** 테스트에서 DOM 상태를 확인하거나 메서드를 감시할 때 사용하는 스냅샷 페이지 */
+  fixturePage: FixturePage;
+}
+
+const FIXTURE_MANIFEST = 'fixture.json';
+
+/** 스냅샷이 저장된 디렉터리 (test/fixtures/wing/<스냅샷 이름>) */
+export const WING_FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'wing');
+
+// Playwright의 :text("...") 선택자 (셀렉터 끝에 올 때만 지원)
+const TEXT_PSEUDO = /:text\("((?:[^"\\]|\\.)*)"\)$/;
+
+/**
+ * CSS 셀렉터와 Playwright의 :text("...") 선택자로 요소를 찾는 메서드
+ *
+ * :text는 Playwright처럼 대소문자와 앞뒤 공백을 무시하고 텍스트를 포함하는 요소를 찾습니다.
+ */
+const queryAll = (root: ParentNode, selector: string): Element[] => {
+  const match = selector.match(TEXT_PSEUDO);
+  if (!match) return Array.from(root.querySelectorAll(selector));
+
+  const text = (JSON.parse(`"${match[1]}"`) as string).trim().toLowerCase();
+  return Array.from(root.querySelectorAll(selector.slice(0, match.index))).filter((element) =>
+    (element.textContent ?? '').trim().toLowerCase().includes(text),
+  );
+};
+
+/**
+ * 스냅샷 디렉터리에서 fixture.json을 읽는 메서드
+ *
+ * @param fixtureDir - 스냅샷 디렉터리 (fixture.json, HTML, JSON 파일이 있는 위치)
+ * @returns {Promise<WingFixture>} - 스냅샷 정의
+ *
+ * @description
+ * 스냅샷 버전이 현재 레지스트리 버전과 다르면 셀렉터가 바뀌었을 수 있으므로 경고를 남깁니다.
+ */
+export const readWingFixture = async (fixtureDir: string): Promise<WingFixture> => {
+  const fixture: WingFixture = JSON.parse(
+    await fs.readFile(path.join(fixtureDir, FIXTURE_MANIFEST), 'utf-8'),
+  );
+
+  if (fixture.version !== WING_SELECTORS_VERSION) {
+    console.warn(
+      `윙 스냅샷 ${fixture.name}의 버전(${fixture.version})이 셀렉터 레지스트리 버전(${WING_SELECTORS_VERSION})과 다릅니다`,
+    );
+  }
+
+  return { ...fixture, responses: fixture.responses ?? [] };
+};
+
+/**
+ * 저장된 API 응답을 Playwright Response처럼 다루는 객체 (waitForResponse 조건과 json만 구현)
+ */
+class FixtureResponse {
+  constructor(
+    private readonly savedUrl: string,
+    private readonly savedStatus: number,
+    private readonly body: string,
+  ) {}
+
+  url(): string {
+    return this.savedUrl;
+  }
+
+  status(): number {
+    return this.savedStatus;
+  }
+
+  request() {
+    return { url: () => this.savedUrl, resourceType: () => 'xhr' };
+  }
+
+  async json(): Promise<any> {
+    return JSON.parse(this.body);
+  }
+}
+
+/**
+ * 스냅샷 DOM의 요소를 Playwright ElementHandle처럼 다루는 객체
+ */
+class FixtureElementHandle {
+  constructor(
+    private readonly page: FixturePage,
+    readonly element: Element,
+  ) {}
+
+  asElement(): FixtureElementHandle {
+    return this;
+  }
+
+  async $(selector: string): Promise<FixtureElementHandle | null> {
+    const element = queryAll(this.element, selector)[0];
+    return element ? new FixtureElementHandle(this.page, element) : null;
+  }
+
+  async evaluate(fn: Function, arg?: unknown): Promise<any> {
+    return this.page.run(fn, [this.element, arg]);
+  }
+
+  async evaluateHandle(fn: Function, arg?: unknown): Promise<FixtureElementHandle | null> {
+    const result = await this.page.run(fn, [this.element, arg]);
+    return result ? new FixtureElementHandle(this.page, result) : null;
+  }
+
+  async click(): Promise<void> {
+    (this.element as HTMLElement).click();
+  }
+
+  async fill(value: string): Promise<void> {
+    const input = this.element as HTMLInputElement;
+    input.value = value;
+    input.dispatchEvent(new this.page.window.Event('input', { bubbles: true }));
+  }
+}
+
+/**
+ * 저장된 HTML을 jsdom으로 열어 Playwright Page처럼 다루는 객체
+ *
+ * @description
+ * 테스트를 실행하는 CI와 빌드 이미지(node:22-alpine)에는 Playwright 브라우저가 없어 실제 Page로 스냅샷을 열 수 없습니다.
+ * 그래서 스펙이 호출하는 프로바이더 메서드가 사용하는 Page 메서드만 구현합니다.
+ * 프로바이더가 새 Page 메서드를 사용하면 여기에 추가해야 하며, 실제 화면과의 차이는 captureWingFixture로 다시 캡처하여 확인합니다.
+ * - goto/reload: 스냅샷 URL과 경로가 같으면 저장된 HTML을 열고 저장된 API 응답을 재생
+ *   (스냅샷에 없는 URL은 예외 발생, 실제 윙에 접속하지 않음)
+ * - evaluate: 함수를 문자열로 바꿔 jsdom 창에서 실행 (Playwright처럼 바깥 변수는 참조할 수 없음)
+ * - waitForSelector: 정적 스냅샷이므로 기다리지 않고 바로 확인하여 없으면 예외 발생
+ * 저장된 HTML의 스크립트는 실행하지 않습니다.
+ */
+export class FixturePage {
+  private dom: JSDOM;
+  private currentUrl = 'about:blank';
+  private readonly waiters = new Set<(response: FixtureResponse) => boolean>();
+
+  constructor(
+    readonly fixture: WingFixture,
+    private readonly html: string,
+    private readonly responses: FixtureResponse[],
+  ) {
+    this.dom = new JSDOM('', { runScripts: 'outside-only' });
+  }
+
+  get window(): any {
+    return this.dom.window;
+  }
+
+  get document(): Document {
+    return this.dom.window.document;
+  }
+
+  async goto(url: string): Promise<null> {
+    if (new URL(url).pathname !== new URL(this.fixture.url).pathname) {
+      throw new Error(`윙 스냅샷 ${this.fixture.name}에 없는 URL입니다: ${url}`);
+    }
+
+    this.currentUrl = url;
+    this.dom = new JSDOM(this.html, { url: url, runScripts: 'outside-only' });
+
+    for (const response of this.responses) {
+      for (const waiter of [...this.waiters]) {
+        if (waiter(response)) this.waiters.delete(waiter);
+      }
+    }
+
+    return null;
+  }
+
+  async reload(): Promise<null> {
+    return this.goto(this.currentUrl);
+  }
+
+  async waitForLoadState(): Promise<void> {}
+
+  async $(selector: string): Promise<FixtureElementHandle | null> {
+    const element = queryAll(this.document, selector)[0];
+    return element ? new FixtureElementHandle(this, element) : null;
+  }
+
+  async waitForSelector(selector: string): Promise<FixtureElementHandle> {
+    const handle = await this.$(selector);
+    if (!handle) {
+      throw new Error(`윙 스냅샷 ${this.fixture.name}에서 ${selector}를 찾을 수 없습니다`);
+    }
+
+    return handle;
+  }
+
+  async evaluate(fn: Function, arg?: unknown): Promise<any> {
+    return this.run(fn, [arg]);
+  }
+
+  waitForResponse(
+    predicate: (response: Response) => boolean,
+    options: { timeout?: number } = {},
+  ): Promise<FixtureResponse> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiters.delete(waiter);
+        reject(new Error(`윙 스냅샷 ${this.fixture.name}에 일치하는 API 응답이 없습니다`));
+      }, options.timeout ?? 30000);
+      timer.unref();
+
+      const waiter = (response: FixtureResponse) => {
+        if (!predicate(response as unknown as Response)) return false;
+        clearTimeout(timer);
+        resolve(response);
+        return true;
+      };
+      this.waiters.add(waiter);
+    });
+  }
+
+  /**
+   * 함수를 jsdom 창에서 실행 (인자는 직렬화하지 않고 그대로 전달하므로 요소도 넘길 수 있음)
+   */
+  async run(fn: Function, args: unknown[]): Promise<any> {
+    this.window.__fixtureArgs = args;
+    try {
+      return await this.window.eval(`(${fn.toString()})(...window.__fixtureArgs)`);
+    } finally {
+      delete this.window.__fixtureArgs;
+    }
+  }
+}
+
+/**
+ * 스냅샷을 연 페이지를 만드는 메서드
+ *
+ * @param fixtureDir - 스냅샷 디렉터리
+ * @returns {Promise<WingFixturePage>} - 스냅샷 페이지 (프로바이더가 WING_URLS로 page.goto를 호출하면 열림)
+ */
+export const openWingFixturePage = async (fixtureDir: string): Promise<WingFixturePage> => {
+  const fixture = await readWingFixture(fixtureDir);
+  const html = await fs.readFile(path.join(fixtureDir, fixture.html), 'utf-8');
+
+  const responses: FixtureResponse[] = [];
+  for (const response of fixture.responses) {
+    responses.push(
+      new FixtureResponse(
+        response.url,
+        response.status ?? 200,
+        await fs.readFile(path.join(fixtureDir, response.file), 'utf-8'),
+      ),
+    );
+  }
+
+  const fixturePage = new FixturePage(fixture, html, responses);
+
+  return { page: fixturePage as unknown as Page, fixturePage };
+};
+
+/**
+ * 현재 페이지에서 찾을 수 없는 셀렉터 목록을 반환하는 메서드
+ *
+ * @param page - 스냅샷이 열린 페이지
+ * @param selectors - 확인할 셀렉터 묶음 (예: WING_SELECTORS.inventory, 함수형 셀렉터는 제외)
+ * @returns {Promise<string[]>} - 일치하는 요소가 없는 셀렉터의 키 목록
+ */
+export const findMissingSelectors = async (
+  page: Pick<Page, '$'>,
+  selectors: Record<string, unknown>,
+): Promise<string[]> => {
+  const missing: string[] = [];
+
+  for (const [key, selector] of Object.entries(selectors)) {
+    if (typeof selector !== 'string' || key.endsWith('Text')) continue;
+    if ((await page.$(selector)) === null) missing.push(key);
+  }
+
+  return missing;
+};
+
+/**
+ * 로그인된 윙 페이지에서 현재 화면을 스냅샷으로 저장하는 메서드
+ *
+ * @param page - 로그인된 Playwright의 Page 객체 (브라우저는 호출하는 쪽에서 실행)
+ * @param fixtureDir - 저장할 스냅샷 디렉터리
+ * @param name - 스냅샷 이름 (예: 'vendor-inventory')
+ * @param url - 캡처할 윙 URL (WING_URLS로 생성)
+ * @returns {Promise<WingFixture>} - 저장된 스냅샷 정의
+ *
+ * @description
+ * 페이지를 여는 동안 WING_RESPONSES에 해당하는 JSON 응답을 함께 저장합니다.
+ * 저장 후 수취인 이름, 안심번호, 판매자 정보 등을 가짜 값으로 바꾼 뒤 커밋합니다.
+ */
+export const captureWingFixture = async (
+  page: Page,
+  fixtureDir: string,
+  name: string,
+  url: string,
+): Promise<WingFixture> => {
+  const captured: Response[] = [];
+  const patterns = Object.values(WING_RESPONSES);
+  const onResponse = (response: Response) => {
+    const isApi = ['xhr', 'fetch'].includes(response.request().resourceType());
+    if (isApi && patterns.some((pattern) => response.url().includes(pattern))) {
+      captured.push(response);
+    }
+  };
+
+  page.on('response', onResponse);
+  try {
+    await page.goto(url, { timeout: 0 });
+    await page.waitForLoadState('networkidle');
+  } finally {
+    page.off('response', onResponse);
+  }
+
+  await fs.mkdir(fixtureDir, { recursive: true });
+  await fs.writeFile(path.join(fixtureDir, `${name}.html`), await page.content(), 'utf-8');
+
+  const responses: WingFixtureResponse[] = [];
+  for (const [index, response] of captured.entries()) {
+    const file = `${name}.response-${index + 1}.json`;
+    await fs.writeFile(path.join(fixtureDir, file), await response.text(), 'utf-8');
+    responses.push({ url: response.url(), file, status: response.status() });
+  }
+
+  const fixture: WingFixture = {
+    name,
+    version: WING_SELECTORS_VERSION,
+    url,
+    html: `${name}.html`,
+    responses,
+  };
+  await fs.writeFile(
+    path.join(fixtureDir, FIXTURE_MANIFEST),
+    JSON.stringify(fixture, null, 2),
+    'utf-8',
+  );
+
+  return fixture;
+};